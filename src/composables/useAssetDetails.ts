@@ -0,0 +1,73 @@
+import { ref } from 'vue'
+import { apiRequest } from '@/utils/api'
+import type { ImmichAlbum, ImmichAsset } from '@/types/immich'
+
+export interface AssetDetails {
+  asset: ImmichAsset
+  albums: ImmichAlbum[]
+}
+
+// Details of the assets seen recently, so flipping the drawer open again is instant
+const CACHE_SIZE = 20
+
+export function useAssetDetails() {
+  const details = ref<AssetDetails | null>(null)
+  const isLoading = ref(false)
+  const error = ref<string | null>(null)
+  const cache = new Map<string, AssetDetails>()
+  let requestedId: string | null = null
+
+  function remember(entry: AssetDetails) {
+    cache.delete(entry.asset.id)
+    cache.set(entry.asset.id, entry)
+    if (cache.size > CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string)
+    }
+  }
+
+  // Search results only carry part of the metadata; the full asset is fetched when the file has any
+  async function load(asset: ImmichAsset): Promise<void> {
+    requestedId = asset.id
+    error.value = null
+
+    const cached = cache.get(asset.id)
+    if (cached) {
+      details.value = cached
+      return
+    }
+
+    details.value = { asset, albums: [] }
+    isLoading.value = true
+    try {
+      const [full, albums] = await Promise.allSettled([
+        asset.hasMetadata ? apiRequest<ImmichAsset>(`/assets/${asset.id}`) : Promise.resolve(asset),
+        apiRequest<ImmichAlbum[]>(`/albums?assetId=${encodeURIComponent(asset.id)}`),
+      ])
+      if (requestedId !== asset.id) return
+
+      const entry: AssetDetails = {
+        asset: full.status === 'fulfilled' ? { ...asset, ...full.value } : asset,
+        albums: albums.status === 'fulfilled' && Array.isArray(albums.value) ? albums.value : [],
+      }
+      details.value = entry
+      if (full.status === 'rejected' || albums.status === 'rejected') {
+        const reason = full.status === 'rejected' ? full.reason : (albums as PromiseRejectedResult).reason
+        console.error('Failed to load asset details', reason)
+        error.value = reason instanceof Error ? reason.message : 'Failed to load asset details'
+      } else {
+        remember(entry)
+      }
+    } finally {
+      if (requestedId === asset.id) {
+        isLoading.value = false
+      }
+    }
+  }
+
+  return {
+    details,
+    isLoading,
+    error,
+    load,
+  }
+}
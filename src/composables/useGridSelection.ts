@@ -0,0 +1,96 @@
+import { computed, ref, toValue, type MaybeRefOrGetter } from 'vue'
+
+// Multi-select over an ordered list of ids. A tap toggles one item, shift extends from the
+// last tapped one, and a drag covers a range: it selects or clears depending on where it started.
+export function useGridSelection(orderedIds: MaybeRefOrGetter<string[]>) {
+  const selectedIds = ref<Set<string>>(new Set())
+  const anchorId = ref<string | null>(null)
+  const isDragging = ref(false)
+  let drag: { startIndex: number; select: boolean; base: Set<string> } | null = null
+
+  const count = computed(() => selectedIds.value.size)
+
+  function isSelected(id: string): boolean {
+    return selectedIds.value.has(id)
+  }
+
+  function setMany(ids: string[], select: boolean) {
+    const next = new Set(selectedIds.value)
+    ids.forEach((id) => (select ? next.add(id) : next.delete(id)))
+    selectedIds.value = next
+  }
+
+  function idsBetween(fromIndex: number, toIndex: number): string[] {
+    const [start, end] = fromIndex <= toIndex ? [fromIndex, toIndex] : [toIndex, fromIndex]
+    return toValue(orderedIds).slice(start, end + 1)
+  }
+
+  function toggle(id: string) {
+    setMany([id], !isSelected(id))
+    anchorId.value = id
+  }
+
+  // Shift-click: everything from the anchor up to here, the anchor stays for the next one
+  function extendTo(id: string) {
+    const ids = toValue(orderedIds)
+    const anchorIndex = anchorId.value ? ids.indexOf(anchorId.value) : -1
+    const index = ids.indexOf(id)
+    if (anchorIndex < 0 || index < 0) {
+      toggle(id)
+      return
+    }
+    setMany(idsBetween(anchorIndex, index), true)
+  }
+
+  function startDrag(id: string) {
+    const startIndex = toValue(orderedIds).indexOf(id)
+    if (startIndex < 0) return
+    drag = { startIndex, select: !isSelected(id), base: new Set(selectedIds.value) }
+    isDragging.value = true
+    anchorId.value = id
+    dragOver(id)
+  }
+
+  // The range is applied to the selection from before the drag, so moving back shrinks it again
+  function dragOver(id: string) {
+    if (!drag) return
+    const index = toValue(orderedIds).indexOf(id)
+    if (index < 0) return
+    const next = new Set(drag.base)
+    idsBetween(drag.startIndex, index).forEach((item) => (drag?.select ? next.add(item) : next.delete(item)))
+    selectedIds.value = next
+  }
+
+  function endDrag() {
+    drag = null
+    isDragging.value = false
+  }
+
+  function select(ids: string[]) {
+    setMany(ids, true)
+  }
+
+  function deselect(ids: string[]) {
+    setMany(ids, false)
+  }
+
+  function clear() {
+    selectedIds.value = new Set()
+    anchorId.value = null
+  }
+
+  return {
+    selectedIds,
+    count,
+    isDragging,
+    isSelected,
+    toggle,
+    extendTo,
+    startDrag,
+    dragOver,
+    endDrag,
+    select,
+    deselect,
+    clear,
+  }
+}
@@ -1,13 +1,38 @@
-import { computed, ref, watch } from 'vue'
+import { computed, ref, shallowRef, triggerRef, watch } from 'vue'
 import { useAuthStore } from '@/stores/auth'
 import { useUiStore } from '@/stores/ui'
 import { usePreferencesStore } from '@/stores/preferences'
 import { useReviewedStore } from '@/stores/reviewed'
+import { useStagedStore } from '@/stores/staged'
+import { useOutboxStore } from '@/stores/outbox'
+import { REVIEWED_TAG_NAME, useReviewSyncStore } from '@/stores/reviewSync'
+import { useJournalStore } from '@/stores/journal'
+import { useHistoryStore } from '@/stores/history'
+import { useCuratedStore } from '@/stores/curated'
+import type { CurationDecision } from '@/stores/curated'
+import type { HistoryEntry, NewHistoryEntry } from '@/stores/history'
+import type { ChronologicalOrder } from '@/stores/preferences'
+import { useQuality } from '@/composables/useQuality'
+import { apiRequest } from '@/utils/api'
+import { takeBurst } from '@/utils/burst'
+import { estimateSessionProgress } from '@/utils/journalStats'
+import type { SessionProgress } from '@/utils/journalStats'
 import type {
+  AssetStatistics,
   ImmichAsset,
   ImmichAlbum,
+  ImmichDuplicateGroup,
+  ImmichPerson,
+  ImmichTag,
   MetadataSearchRequest,
   MetadataSearchResponse,
+  PeopleResponse,
+  RandomSearchRequest,
+  ReviewGroup,
+  SearchFilters,
+  SearchStatisticsRequest,
+  SearchStatisticsResponse,
+  SmartSearchRequest,
 } from '@/types/immich'
 
 export function useImmich() {
@@ -15,6 +40,13 @@ export function useImmich() {
   const uiStore = useUiStore()
   const preferencesStore = usePreferencesStore()
   const reviewedStore = useReviewedStore()
+  const stagedStore = useStagedStore()
+  const outboxStore = useOutboxStore()
+  const reviewSyncStore = useReviewSyncStore()
+  const journalStore = useJournalStore()
+  const historyStore = useHistoryStore()
+  const curatedStore = useCuratedStore()
+  const quality = useQuality()
 
   const currentAsset = ref<ImmichAsset | null>(null)
   const nextAsset = ref<ImmichAsset | null>(null)
@@ -23,96 +55,170 @@ export function useImmich() {
   const SKIP_VIDEOS_BATCH_SIZE = 10
   const SKIP_VIDEOS_MAX_ATTEMPTS = 5
   const CHRONO_PAGE_SIZE = 50
+  const SMART_PAGE_SIZE = 50
+  const TRASH_PAGE_SIZE = 50
+  const CURATION_PAGE_SIZE = 50
   const RANDOM_BATCH_SIZE = 5
   const RANDOM_MAX_ATTEMPTS = 20
 
   const albumsCache = ref<ImmichAlbum[] | null>(null)
+  const tagsCache = ref<ImmichTag[] | null>(null)
 
   const chronologicalQueue = ref<ImmichAsset[]>([])
   const chronologicalSkip = ref(0)
   const chronologicalPage = ref<number | null>(1)
   const chronologicalPagingMode = ref<'skip' | 'page' | null>(null)
   const chronologicalHasMore = ref(true)
-  const isFetchingChronological = ref(false)
+  // Shared while in flight, so a swipe during the preload waits for the same page instead of spinning
+  let chronologicalBatch: Promise<void> | null = null
+  // Resume point, read once per flow so the pages stay consistent (undefined = not read yet)
+  let chronologicalBoundary: string | null | undefined
+  // Creation dates of the assets shown in this flow, by id; the resume point can't pass an undecided one
+  let chronologicalShown = new Map<string, string>()
+
+  const duplicatesQueue = ref<ReviewGroup[]>([])
+  const duplicatesLoaded = ref(false)
+
+  const smartQueue = ref<ImmichAsset[]>([])
+  const smartPage = ref(1)
+  const smartHasMore = ref(true)
+  // Shared by the current fetch and the preload; the generation drops pages of an earlier flow
+  let smartBatch: Promise<void> | null = null
+  let smartGeneration = 0
+
+  const trashQueue = ref<ImmichAsset[]>([])
+  const trashPage = ref(1)
+  const trashHasMore = ref(true)
+  let trashBatch: Promise<void> | null = null
+  let trashGeneration = 0
+  // Restored or marked in the trash review; the listing still has them until the outbox catches up
+  const trashDecided = new Set<string>()
+  // Left swipes of the trash review, nothing is purged before the typed confirmation
+  const purgeMarked = ref<ImmichAsset[]>([])
+
+  const curationQueue = ref<ImmichAsset[]>([])
+  const curationPage = ref(1)
+  const curationHasMore = ref(true)
+  let curationBatch: Promise<void> | null = null
+  let curationGeneration = 0
+
+  // Groups shown as one card, keyed by the id of their lead asset
+  const assetGroups = ref(new Map<string, ReviewGroup>())
+  const currentGroup = computed(() =>
+    currentAsset.value ? assetGroups.value.get(currentAsset.value.id) ?? null : null
+  )
 
-  type ReviewAction = {
-    asset: ImmichAsset
-    type: 'keep' | 'delete' | 'keepToAlbum'
-    albumName?: string
-  }
+  // Bytes credited per trashed asset, so undo takes back exactly what was added
+  const reclaimedByAsset = new Map<string, number>()
 
-  const actionHistory = ref<ReviewAction[]>([])
+  // Server count of the assets in scope that pass the filters, null while unknown
+  const scopeTotal = ref<number | null>(null)
+  let scopeTotalRequest = 0
+  // Every asset the flow fetched for the current scope, reviewed or not
+  const seenInScope = shallowRef(new Map<string, ImmichAsset>())
+  // Trashed after the count was taken, so still part of it
+  const deletedSinceCount = ref(new Set<string>())
 
-  function isReviewable(asset: ImmichAsset): boolean {
-    if (reviewedStore.isReviewed(asset.id)) return false
+  // Skip-videos and minimum rating, regardless of whether the asset was reviewed
+  function matchesFilters(asset: ImmichAsset): boolean {
     if (uiStore.skipVideos && asset.type === 'VIDEO') return false
+    const minRating = preferencesStore.reviewScope.minRating ?? 0
+    if (minRating > 0 && (asset.exifInfo?.rating ?? 0) < minRating) return false
     return true
   }
 
+  function isReviewable(asset: ImmichAsset): boolean {
+    if (reviewedStore.isReviewed(asset.id)) return false
+    return matchesFilters(asset)
+  }
+
+  // Search filters for the active review scope, without empty values
+  function getScopeFilters(): SearchFilters {
+    const scope = preferencesStore.reviewScope
+    const filters: SearchFilters = {}
+    if (scope.takenAfter) filters.takenAfter = scope.takenAfter
+    if (scope.takenBefore) filters.takenBefore = scope.takenBefore
+    if (scope.albumIds?.length) filters.albumIds = [...scope.albumIds]
+    if (scope.personIds?.length) filters.personIds = [...scope.personIds]
+    if (scope.city?.trim()) filters.city = scope.city.trim()
+    if (scope.country?.trim()) filters.country = scope.country.trim()
+    if (scope.make?.trim()) filters.make = scope.make.trim()
+    if (scope.model?.trim()) filters.model = scope.model.trim()
+    return filters
+  }
+
   function resetReviewFlow() {
     chronologicalQueue.value = []
     chronologicalSkip.value = 0
     chronologicalPage.value = 1
     chronologicalPagingMode.value = null
     chronologicalHasMore.value = true
+    chronologicalBoundary = undefined
+    chronologicalShown = new Map()
+    chronologicalBatch = null
+    duplicatesQueue.value = []
+    duplicatesLoaded.value = false
+    smartQueue.value = []
+    smartPage.value = 1
+    smartHasMore.value = true
+    smartBatch = null
+    smartGeneration++
+    trashQueue.value = []
+    trashPage.value = 1
+    trashHasMore.value = true
+    trashBatch = null
+    trashGeneration++
+    curationQueue.value = []
+    curationPage.value = 1
+    curationHasMore.value = true
+    curationBatch = null
+    curationGeneration++
+    assetGroups.value = new Map()
     nextAsset.value = null
     pendingAssets.value = []
-    actionHistory.value = []
+    seenInScope.value = new Map()
+  }
+
+  function currentChronologicalOrder(): ChronologicalOrder | null {
+    if (preferencesStore.smartQuery || preferencesStore.trashReview || preferencesStore.curationAlbum) return null
+    const order = preferencesStore.reviewOrder
+    return order === 'chronological' || order === 'chronological-desc' ? order : null
   }
 
+  // The next session picks up at the first asset of this one that is still undecided, so skipped
+  // assets stay in the flow; once everything shown is decided, at the last of them
+  function updateChronologicalCursor(order: ChronologicalOrder) {
+    const shown = Array.from(chronologicalShown.entries())
+    const undecided = shown.filter(([id]) => !reviewedStore.isReviewed(id))
+    const candidates = (undecided.length > 0 ? undecided : shown)
+      .map(([, takenAt]) => takenAt)
+      .sort((a, b) => Date.parse(a) - Date.parse(b))
+    if (candidates.length === 0) return
+
+    // Oldest first resumes at the oldest undecided asset, newest first at the newest one
+    const earliest = (order === 'chronological') === undecided.length > 0
+    preferencesStore.setChronologicalCursor(order, earliest ? candidates[0] : candidates[candidates.length - 1])
+  }
+
+  watch([currentAsset, () => reviewedStore.count], ([asset]) => {
+    const order = currentChronologicalOrder()
+    if (!order) return
+    if (asset && !chronologicalShown.has(asset.id)) {
+      chronologicalShown.set(asset.id, asset.fileCreatedAt)
+    }
+    updateChronologicalCursor(order)
+  })
+
   watch(
     () => [authStore.serverUrl, authStore.currentUserName],
     () => {
       albumsCache.value = null
+      tagsCache.value = null
+      scopeTotal.value = null
       resetReviewFlow()
     }
   )
 
-  // Generic Immich API request helper
-  async function apiRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    if (!authStore.immichBaseUrl) {
-      throw new Error('Immich server URL is not configured')
-    }
-
-    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
-    const url = `${authStore.immichBaseUrl}${authStore.proxyBaseUrl}${normalizedEndpoint}`
-    const headers: HeadersInit = {
-      'x-api-key': authStore.apiKey,
-      'Accept': 'application/json',
-      ...options.headers,
-    }
-
-    // Add Content-Type for non-GET requests with body
-    if (options.body && typeof options.body === 'string') {
-      (headers as Record<string, string>)['Content-Type'] = 'application/json'
-    }
-
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      let errorMessage: string
-      try {
-        const errorJson = JSON.parse(errorText)
-        errorMessage = errorJson.message || errorJson.error || `API error: ${response.status}`
-      } catch {
-        errorMessage = `API error: ${response.status} - ${errorText}`
-      }
-      throw new Error(errorMessage)
-    }
-
-    // Handle empty
-    const text = await response.text()
-    if (!text) return {} as T
-    return JSON.parse(text)
-  }
-
   // Test connection
   async function testConnection(): Promise<boolean> {
     try {
@@ -127,17 +233,40 @@ export function useImmich() {
     }
   }
 
+  // Unscoped sessions keep using the plain random endpoint, scoped ones need random search
+  async function fetchRandomBatch(count: number): Promise<ImmichAsset[]> {
+    if (!preferencesStore.hasReviewScope) {
+      return apiRequest<ImmichAsset[]>(`/assets/random?count=${count}`)
+    }
+
+    const body: RandomSearchRequest = {
+      ...getScopeFilters(),
+      size: count,
+      withExif: true,
+    }
+    // Each batch asks for one of the accepted ratings, search can't do "at least"
+    const minRating = preferencesStore.reviewScope.minRating ?? 0
+    if (minRating > 0) {
+      body.rating = minRating + Math.floor(Math.random() * (6 - minRating))
+    }
+    return apiRequest<ImmichAsset[]>('/search/random', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  }
+
   // Fetch a random asset
   async function fetchRandomAsset(): Promise<ImmichAsset | null> {
     try {
       const attempts = uiStore.skipVideos ? SKIP_VIDEOS_MAX_ATTEMPTS : RANDOM_MAX_ATTEMPTS
       for (let attempt = 0; attempt < attempts; attempt++) {
         const count = uiStore.skipVideos ? SKIP_VIDEOS_BATCH_SIZE : RANDOM_BATCH_SIZE
-        const assets = await apiRequest<ImmichAsset[]>(`/assets/random?count=${count}`)
+        const assets = await fetchRandomBatch(count)
         if (!assets || assets.length === 0) {
           continue
         }
 
+        noteSeen(assets)
         const candidate = assets.find(isReviewable)
         if (candidate) return candidate
       }
@@ -145,6 +274,9 @@ export function useImmich() {
       if (uiStore.skipVideos) {
         throw new Error('No unreviewed photos found after skipping videos.')
       }
+      if (preferencesStore.hasReviewScope) {
+        throw new Error('No unreviewed assets found for the current filters.')
+      }
       throw new Error('No unreviewed assets found. Clear the reviewed cache to start over.')
     } catch (e) {
       console.error('Failed to fetch random asset:', e)
@@ -152,12 +284,34 @@ export function useImmich() {
     }
   }
 
+  // The scope's date range narrowed down to the resume point; both bounds are inclusive
+  function withChronologicalBoundary(filters: SearchFilters, order: ChronologicalOrder): SearchFilters {
+    if (chronologicalBoundary === undefined) {
+      chronologicalBoundary = preferencesStore.getChronologicalCursor(order)
+    }
+    const boundary = chronologicalBoundary
+    if (!boundary) return filters
+
+    if (order === 'chronological') {
+      const after = filters.takenAfter
+      return { ...filters, takenAfter: after && Date.parse(after) > Date.parse(boundary) ? after : boundary }
+    }
+    const before = filters.takenBefore
+    return { ...filters, takenBefore: before && Date.parse(before) < Date.parse(boundary) ? before : boundary }
+  }
+
   async function fetchChronologicalBatch(): Promise<{ items: ImmichAsset[]; hasMore: boolean; nextPage: number | null }> {
     const order = preferencesStore.reviewOrder === 'chronological-desc' ? 'desc' : 'asc'
     const usePagePagination = chronologicalPagingMode.value !== 'skip'
+    // The quality order walks the whole scope, a resume point would hide the start of it
+    const scopeFilters = preferencesStore.reviewOrder === 'quality'
+      ? getScopeFilters()
+      : withChronologicalBoundary(getScopeFilters(), order === 'desc' ? 'chronological-desc' : 'chronological')
     const body: MetadataSearchRequest = {
+      ...scopeFilters,
       order,
       assetType: ['IMAGE', 'VIDEO'],
+      withExif: true,
     }
     if (usePagePagination && chronologicalPage.value !== null) {
       body.page = chronologicalPage.value
@@ -181,8 +335,10 @@ export function useImmich() {
       chronologicalPagingMode.value = 'skip'
       chronologicalPage.value = null
       const fallbackBody: MetadataSearchRequest = {
+        ...scopeFilters,
         order,
         assetType: ['IMAGE', 'VIDEO'],
+        withExif: true,
         take: CHRONO_PAGE_SIZE,
         skip: chronologicalSkip.value,
       }
@@ -235,19 +391,45 @@ export function useImmich() {
       await loadChronologicalBatch()
     }
 
-    if (chronologicalQueue.value.length === 0) {
+    const asset = chronologicalQueue.value.shift()
+    if (!asset) {
       return null
     }
 
-    return chronologicalQueue.value.shift() || null
+    // Sorted by score, neighbours in the queue aren't neighbours in time
+    if (preferencesStore.reviewOrder === 'quality') {
+      return asset
+    }
+
+    // Look one batch ahead so a burst isn't cut at a page boundary
+    if (chronologicalQueue.value.length === 0 && chronologicalHasMore.value) {
+      await loadChronologicalBatch()
+    }
+
+    const burst = takeBurst(asset, chronologicalQueue.value)
+    if (burst.length > 1) {
+      assetGroups.value.set(asset.id, { id: `burst:${asset.id}`, kind: 'burst', assets: burst })
+    }
+    return asset
   }
 
-  async function loadChronologicalBatch(): Promise<void> {
-    if (isFetchingChronological.value || !chronologicalHasMore.value) return
-    isFetchingChronological.value = true
+  function loadChronologicalBatch(): Promise<void> {
+    if (!chronologicalHasMore.value) return Promise.resolve()
+    if (!chronologicalBatch) {
+      const batch: Promise<void> = fetchIntoChronologicalQueue().finally(() => {
+        if (chronologicalBatch === batch) chronologicalBatch = null
+      })
+      chronologicalBatch = batch
+    }
+    return chronologicalBatch
+  }
 
+  async function fetchIntoChronologicalQueue(): Promise<void> {
+    // A reset swaps the queue, pages of the previous flow are dropped
+    const queue = chronologicalQueue.value
     try {
       const batch = await fetchChronologicalBatch()
+      if (queue !== chronologicalQueue.value) return
       if (chronologicalPagingMode.value === 'skip') {
         chronologicalSkip.value += batch.items.length
       }
@@ -258,24 +440,226 @@ export function useImmich() {
         chronologicalPage.value += 1
       }
 
+      noteSeen(batch.items)
       const filtered = batch.items.filter(isReviewable)
+      if (preferencesStore.reviewOrder === 'quality') {
+        const reports = await quality.analyzeAll(filtered)
+        const score = (asset: ImmichAsset) => reports.get(asset.id)?.score ?? 0
+        filtered.sort((a, b) => score(b) - score(a))
+      }
+      if (queue !== chronologicalQueue.value) return
       chronologicalQueue.value.push(...filtered)
     } catch (e) {
       console.error('Failed to fetch chronological assets:', e)
       chronologicalHasMore.value = false
       error.value = e instanceof Error ? e.message : 'Failed to load chronological assets'
-    } finally {
-      isFetchingChronological.value = false
     }
   }
 
+  // Next chronological page for views that lay the assets out themselves (grid triage)
+  async function takeChronologicalPage(): Promise<{ items: ImmichAsset[]; hasMore: boolean }> {
+    await loadChronologicalBatch()
+    const items = chronologicalQueue.value.splice(0)
+    return { items, hasMore: chronologicalHasMore.value }
+  }
+
+  async function loadDuplicateGroups(): Promise<void> {
+    const groups = await apiRequest<ImmichDuplicateGroup[]>('/duplicates')
+    duplicatesQueue.value = (Array.isArray(groups) ? groups : []).map((group) => ({
+      id: group.duplicateId,
+      kind: 'duplicates' as const,
+      assets: group.assets,
+    }))
+    duplicatesLoaded.value = true
+  }
+
+  async function fetchNextDuplicateGroup(): Promise<ImmichAsset | null> {
+    if (!duplicatesLoaded.value) {
+      await loadDuplicateGroups()
+    }
+
+    while (duplicatesQueue.value.length > 0) {
+      const group = duplicatesQueue.value.shift()
+      if (!group) continue
+      const assets = group.assets.filter((asset) => !asset.isTrashed && isReviewable(asset))
+      if (assets.length < 2) continue
+
+      const reviewGroup: ReviewGroup = { ...group, assets }
+      assetGroups.value.set(assets[0].id, reviewGroup)
+      return assets[0]
+    }
+
+    return null
+  }
+
+  async function loadSmartBatch(query: string): Promise<void> {
+    const generation = smartGeneration
+    try {
+      const body: SmartSearchRequest = {
+        ...getScopeFilters(),
+        query,
+        page: smartPage.value,
+        size: SMART_PAGE_SIZE,
+        withExif: true,
+      }
+      const response = await apiRequest<MetadataSearchResponse>('/search/smart', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      if (generation !== smartGeneration) return
+
+      const items = response?.assets?.items ?? []
+      const nextPage = Number(response?.assets?.nextPage)
+      smartHasMore.value = items.length > 0 && !Number.isNaN(nextPage) && nextPage > smartPage.value
+      if (smartHasMore.value) smartPage.value = nextPage
+
+      const queued = new Set(smartQueue.value.map((asset) => asset.id))
+      smartQueue.value.push(...items.filter((asset) => isReviewable(asset) && !queued.has(asset.id)))
+    } catch (e) {
+      if (generation !== smartGeneration) return
+      console.error('Failed to fetch smart search results:', e)
+      smartHasMore.value = false
+      error.value = e instanceof Error ? e.message : 'Smart search failed'
+    }
+  }
+
+  async function fetchNextSmartAsset(query: string): Promise<ImmichAsset | null> {
+    const generation = smartGeneration
+    while (smartQueue.value.length === 0 && smartHasMore.value) {
+      if (!smartBatch) {
+        const batch: Promise<void> = loadSmartBatch(query).finally(() => {
+          if (smartBatch === batch) smartBatch = null
+        })
+        smartBatch = batch
+      }
+      await smartBatch
+      if (generation !== smartGeneration) return null
+    }
+    return smartQueue.value.shift() ?? null
+  }
+
+  // The trash review and album curation keep their own decisions apart from the reviewed cache
+  function isDecided(asset: ImmichAsset): boolean {
+    if (preferencesStore.trashReview) return trashDecided.has(asset.id)
+    const album = preferencesStore.curationAlbum
+    if (album) return curatedStore.isCurated(album.id, asset.id)
+    return reviewedStore.isReviewed(asset.id)
+  }
+
+  // The whole trash, newest first; the review scope is about the library and doesn't apply
+  async function loadTrashBatch(): Promise<void> {
+    const generation = trashGeneration
+    try {
+      const body: MetadataSearchRequest = {
+        withDeleted: true,
+        trashedAfter: new Date(0).toISOString(),
+        order: 'desc',
+        page: trashPage.value,
+        size: TRASH_PAGE_SIZE,
+        withExif: true,
+      }
+      const response = await apiRequest<MetadataSearchResponse>('/search/metadata', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      if (generation !== trashGeneration) return
+
+      const items = response?.assets?.items ?? []
+      const nextPage = Number(response?.assets?.nextPage)
+      trashHasMore.value = items.length > 0 && !Number.isNaN(nextPage) && nextPage > trashPage.value
+      if (trashHasMore.value) trashPage.value = nextPage
+
+      const queued = new Set(trashQueue.value.map((asset) => asset.id))
+      trashQueue.value.push(...items.filter((asset) => asset.isTrashed && !isDecided(asset) && !queued.has(asset.id)))
+    } catch (e) {
+      if (generation !== trashGeneration) return
+      console.error('Failed to fetch trashed assets:', e)
+      trashHasMore.value = false
+      error.value = e instanceof Error ? e.message : 'Failed to load the trash'
+    }
+  }
+
+  async function fetchNextTrashedAsset(): Promise<ImmichAsset | null> {
+    const generation = trashGeneration
+    while (trashQueue.value.length === 0 && trashHasMore.value) {
+      if (!trashBatch) {
+        const batch: Promise<void> = loadTrashBatch().finally(() => {
+          if (trashBatch === batch) trashBatch = null
+        })
+        trashBatch = batch
+      }
+      await trashBatch
+      if (generation !== trashGeneration) return null
+    }
+    return trashQueue.value.shift() ?? null
+  }
+
+  // Oldest first, the album is the scope; skip-videos and the minimum rating still apply
+  async function loadCurationBatch(albumId: string): Promise<void> {
+    const generation = curationGeneration
+    try {
+      const body: MetadataSearchRequest = {
+        albumIds: [albumId],
+        order: 'asc',
+        page: curationPage.value,
+        size: CURATION_PAGE_SIZE,
+        withExif: true,
+      }
+      const response = await apiRequest<MetadataSearchResponse>('/search/metadata', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      if (generation !== curationGeneration) return
+
+      const items = response?.assets?.items ?? []
+      const nextPage = Number(response?.assets?.nextPage)
+      curationHasMore.value = items.length > 0 && !Number.isNaN(nextPage) && nextPage > curationPage.value
+      if (curationHasMore.value) curationPage.value = nextPage
+
+      const queued = new Set(curationQueue.value.map((asset) => asset.id))
+      curationQueue.value.push(...items.filter((asset) => matchesFilters(asset) && !isDecided(asset) && !queued.has(asset.id)))
+    } catch (e) {
+      if (generation !== curationGeneration) return
+      console.error('Failed to fetch album assets:', e)
+      curationHasMore.value = false
+      error.value = e instanceof Error ? e.message : 'Failed to load the album'
+    }
+  }
+
+  async function fetchNextCuratedAsset(albumId: string): Promise<ImmichAsset | null> {
+    const generation = curationGeneration
+    while (curationQueue.value.length === 0 && curationHasMore.value) {
+      if (!curationBatch) {
+        const batch: Promise<void> = loadCurationBatch(albumId).finally(() => {
+          if (curationBatch === batch) curationBatch = null
+        })
+        curationBatch = batch
+      }
+      await curationBatch
+      if (generation !== curationGeneration) return null
+    }
+    return curationQueue.value.shift() ?? null
+  }
+
   async function fetchNextAsset(): Promise<ImmichAsset | null> {
     while (pendingAssets.value.length > 0) {
       const pending = pendingAssets.value.shift()
-      if (pending && !reviewedStore.isReviewed(pending.id)) {
+      if (pending && !isDecided(pending)) {
         return pending
       }
     }
+    if (preferencesStore.trashReview) {
+      return fetchNextTrashedAsset()
+    }
+    if (preferencesStore.curationAlbum) {
+      return fetchNextCuratedAsset(preferencesStore.curationAlbum.id)
+    }
+    if (preferencesStore.smartQuery) {
+      return fetchNextSmartAsset(preferencesStore.smartQuery)
+    }
+    if (preferencesStore.reviewOrder === 'duplicates') {
+      return fetchNextDuplicateGroup()
+    }
     if (preferencesStore.reviewOrder !== 'random') {
       return fetchNextChronologicalAsset()
     }
@@ -291,12 +675,26 @@ export function useImmich() {
       if (resetFlow) {
         resetReviewFlow()
       }
+      await reviewedStore.whenReady()
+      await reviewSyncStore.whenReconciled()
       currentAsset.value = await fetchNextAsset()
 
       if (currentAsset.value) {
         preloadNextAsset()
       } else {
-        if (preferencesStore.reviewOrder !== 'random') {
+        if (preferencesStore.trashReview) {
+          error.value = error.value ?? 'The trash is empty.'
+        } else if (preferencesStore.curationAlbum) {
+          error.value = error.value ?? `Every photo in “${preferencesStore.curationAlbum.albumName}” has been curated.`
+        } else if (preferencesStore.smartQuery) {
+          error.value = error.value ?? `No unreviewed photos match “${preferencesStore.smartQuery}”.`
+        } else if (preferencesStore.reviewOrder === 'duplicates') {
+          error.value = 'No unresolved duplicates found.'
+        } else if (preferencesStore.reviewOrder === 'quality') {
+          error.value = 'No unreviewed photos left to rank by quality.'
+        } else if (preferencesStore.hasReviewScope) {
+          error.value = 'No photos found for the current filters.'
+        } else if (preferencesStore.reviewOrder !== 'random') {
           error.value = uiStore.skipVideos
             ? 'No photos found in chronological mode after skipping videos.'
             : 'No photos found in chronological mode.'
@@ -313,6 +711,22 @@ export function useImmich() {
     }
   }
 
+  // Restart the chronological flow at a day: from its start when oldest first, from its end when
+  // newest first. Without a date it starts over from the beginning of the scope.
+  async function startChronologicalFrom(date: string | null): Promise<void> {
+    const order = currentChronologicalOrder()
+    if (!order) return
+    if (date) {
+      const day = new Date(`${date}T00:00:00`)
+      if (Number.isNaN(day.getTime())) return
+      if (order === 'chronological-desc') day.setHours(23, 59, 59, 999)
+      preferencesStore.setChronologicalCursor(order, day.toISOString())
+    } else {
+      preferencesStore.clearChronologicalCursor(order)
+    }
+    await loadInitialAsset()
+  }
+
   // Preload next
   async function preloadNextAsset(): Promise<void> {
     try {
@@ -345,7 +759,7 @@ export function useImmich() {
   }
 
   function enqueuePendingAsset(asset: ImmichAsset | null): void {
-    if (!asset || reviewedStore.isReviewed(asset.id)) return
+    if (!asset || isDecided(asset)) return
     pendingAssets.value = [
       asset,
       ...pendingAssets.value.filter((item) => item.id !== asset.id),
@@ -413,135 +827,769 @@ export function useImmich() {
     return albums
   }
 
-  async function addAssetToAlbum(albumId: string, assetId: string): Promise<void> {
-    await apiRequest(`/albums/${albumId}/assets`, {
+  // The review sync marker is managed by the app, it isn't offered for tagging
+  async function fetchTags(force: boolean = false): Promise<ImmichTag[]> {
+    if (tagsCache.value && !force) {
+      return tagsCache.value
+    }
+
+    const tags = await apiRequest<ImmichTag[]>('/tags')
+    tagsCache.value = (Array.isArray(tags) ? tags : [])
+      .filter((tag) => tag.value !== REVIEWED_TAG_NAME)
+      .sort((a, b) => a.value.localeCompare(b.value))
+    return tagsCache.value
+  }
+
+  // Upsert accepts `Parent/Child` paths and returns the existing tag when the name is taken
+  async function createTag(value: string): Promise<ImmichTag> {
+    const tags = await apiRequest<ImmichTag[]>('/tags', {
       method: 'PUT',
-      body: JSON.stringify({
-        ids: [assetId],
-      }),
+      body: JSON.stringify({ tags: [value] }),
     })
+    const tag = tags.find((item) => item.value === value) ?? tags[tags.length - 1]
+    if (!tag) {
+      throw new Error(`Tag "${value}" could not be created`)
+    }
+    if (tagsCache.value && !tagsCache.value.some((item) => item.id === tag.id)) {
+      tagsCache.value = [...tagsCache.value, tag].sort((a, b) => a.value.localeCompare(b.value))
+    }
+    return tag
   }
 
-  // Delete asset (move to trash)
-  async function deleteAsset(assetId: string, force: boolean = false): Promise<boolean> {
-    try {
-      await apiRequest('/assets', {
-        method: 'DELETE',
-        body: JSON.stringify({
-          ids: [assetId],
-          force,
-        }),
+  async function fetchPeople(): Promise<ImmichPerson[]> {
+    const response = await apiRequest<PeopleResponse>('/people?withHidden=false')
+    return (response.people ?? []).filter((person) => person.name)
+  }
+
+  async function fetchAssetStatistics(): Promise<AssetStatistics> {
+    return apiRequest<AssetStatistics>('/assets/statistics')
+  }
+
+  function noteSeen(assets: ImmichAsset[]): void {
+    assets.forEach((asset) => seenInScope.value.set(asset.id, asset))
+    triggerRef(seenInScope)
+  }
+
+  async function countScopeAssets(): Promise<number> {
+    const type = uiStore.skipVideos ? 'IMAGE' : undefined
+    if (!preferencesStore.hasReviewScope) {
+      const statistics = await fetchAssetStatistics()
+      return type ? statistics.images : statistics.total
+    }
+
+    // One count per accepted rating, search can't do "at least"
+    const minRating = preferencesStore.reviewScope.minRating ?? 0
+    const ratings = minRating > 0 ? Array.from({ length: 6 - minRating }, (_, i) => minRating + i) : [undefined]
+    const counts = await Promise.all(ratings.map((rating) => {
+      const body: SearchStatisticsRequest = { ...getScopeFilters() }
+      if (type) body.type = type
+      if (rating) body.rating = rating
+      return apiRequest<SearchStatisticsResponse>('/search/statistics', {
+        method: 'POST',
+        body: JSON.stringify(body),
       })
-      return true
+    }))
+    return counts.reduce((sum, response) => sum + (response.total ?? 0), 0)
+  }
+
+  // Recount after the scope or the skip-videos mode changed; only the latest request lands
+  async function refreshScopeTotal(): Promise<void> {
+    const request = ++scopeTotalRequest
+    try {
+      const total = await countScopeAssets()
+      if (request !== scopeTotalRequest) return
+      scopeTotal.value = total
+      deletedSinceCount.value = new Set()
     } catch (e) {
-      console.error('Failed to delete asset:', e)
-      error.value = e instanceof Error ? e.message : 'Failed to delete photo'
-      return false
+      if (request !== scopeTotalRequest) return
+      console.error('Failed to count assets in scope:', e)
+      scopeTotal.value = null
+    }
+  }
+
+  // The reviewed cache doesn't know which scope an asset belongs to, so only the reviewed
+  // assets the flow came across count against the total. Unfiltered, the whole cache does.
+  const sessionProgress = computed<SessionProgress | null>(() => {
+    if (
+      scopeTotal.value === null ||
+      preferencesStore.reviewOrder === 'duplicates' ||
+      preferencesStore.smartQuery ||
+      preferencesStore.trashReview ||
+      preferencesStore.curationAlbum
+    ) {
+      return null
+    }
+
+    const isDeletedSinceCount = (id: string) =>
+      deletedSinceCount.value.has(id) && reviewedStore.getDecision(id) === 'delete'
+    let reviewed = 0
+    seenInScope.value.forEach((asset) => {
+      if (!matchesFilters(asset)) return
+      const decision = reviewedStore.getDecision(asset.id)
+      if (decision === 'keep' || decision === 'archive' || isDeletedSinceCount(asset.id)) reviewed++
+    })
+    if (!preferencesStore.hasReviewScope && !uiStore.skipVideos) {
+      const deleted = [...deletedSinceCount.value].filter(isDeletedSinceCount).length
+      reviewed = Math.max(reviewed, reviewedStore.keptIds().length + deleted)
     }
+    return estimateSessionProgress(reviewed, scopeTotal.value, journalStore.entries)
+  })
+
+  function noteDeleted(ids: string[]): void {
+    const next = new Set(deletedSinceCount.value)
+    ids.forEach((id) => next.add(id))
+    deletedSinceCount.value = next
+  }
+
+  // Mutations go through the outbox: they are persisted, retried and sent in the
+  // background, so a flaky connection never blocks swiping or loses a decision.
+  function addAssetToAlbum(albumId: string, assetId: string): void {
+    outboxStore.enqueue({ kind: 'albumAdd', albumId, ids: [assetId] })
+  }
+
+  // Delete assets (move to trash)
+  function deleteAssets(assetIds: string[], force: boolean = false): void {
+    outboxStore.enqueue({ kind: 'delete', ids: assetIds, force })
+  }
+
+  function deleteAsset(assetId: string, force: boolean = false): void {
+    deleteAssets([assetId], force)
+  }
+
+  // Restore assets from trash; deletes that were never sent are just dropped from the outbox
+  function restoreAssets(assetIds: string[]): void {
+    const toRestore = assetIds.filter((id) => !outboxStore.cancelPending('delete', id))
+    if (toRestore.length > 0) {
+      outboxStore.enqueue({ kind: 'restore', ids: toRestore })
+    }
+  }
+
+  function restoreAsset(assetId: string): void {
+    restoreAssets([assetId])
   }
 
-  // Restore asset from trash
-  async function restoreAsset(assetId: string): Promise<boolean> {
+  async function fetchFileSize(assetId: string): Promise<number> {
     try {
-      await apiRequest('/trash/restore/assets', {
-        method: 'POST',
-        body: JSON.stringify({
-          ids: [assetId],
-        }),
-      })
-      return true
+      const asset = await apiRequest<ImmichAsset>(`/assets/${assetId}`)
+      return asset.exifInfo?.fileSizeInByte ?? 0
     } catch (e) {
-      console.error('Failed to restore asset:', e)
-      error.value = e instanceof Error ? e.message : 'Failed to restore photo'
-      return false
+      console.error('Failed to fetch file size:', e)
+      return 0
+    }
+  }
+
+  // Count trashed assets towards the reclaimed total; sizes missing from the
+  // search response are looked up afterwards
+  function creditReclaimed(items: { id: string; size?: number | null }[]): void {
+    items.forEach(({ id, size }) => {
+      if (typeof size === 'number') {
+        reclaimedByAsset.set(id, size)
+        uiStore.addReclaimed(size)
+        return
+      }
+      reclaimedByAsset.set(id, 0)
+      void fetchFileSize(id).then((bytes) => {
+        // Undone while the size was loading
+        if (!reclaimedByAsset.has(id)) return
+        reclaimedByAsset.set(id, bytes)
+        uiStore.addReclaimed(bytes)
+      })
+    })
+  }
+
+  function refundReclaimed(assetIds: string[]): void {
+    assetIds.forEach((id) => {
+      const bytes = reclaimedByAsset.get(id)
+      if (bytes === undefined) return
+      reclaimedByAsset.delete(id)
+      uiStore.subtractReclaimed(bytes)
+    })
+  }
+
+  // Bookkeeping of one decision, shared by swipes and grid bulk actions so both count the same
+  function recordDecision(entry: NewHistoryEntry & { type: 'keep' | 'keepToAlbum' | 'favorite' | 'archive' | 'delete' }): void {
+    const { asset } = entry
+    historyStore.push(entry)
+    switch (entry.type) {
+      case 'delete':
+        noteDeleted([asset.id])
+        reviewedStore.markReviewed(asset.id, 'delete', asset.originalFileName)
+        journalStore.record('delete', asset)
+        uiStore.incrementDeleted()
+        break
+      case 'archive':
+        reviewedStore.markReviewed(asset.id, 'archive', asset.originalFileName)
+        journalStore.record('archive', asset)
+        uiStore.incrementArchived()
+        break
+      default:
+        reviewedStore.markReviewed(asset.id, 'keep', asset.originalFileName)
+        journalStore.record(entry.type === 'keepToAlbum' ? 'album' : entry.type, asset)
+        uiStore.incrementKept()
+    }
+  }
+
+  // Only restoring and purging make sense for an asset in the trash
+  function isBlockedInTrash(): boolean {
+    if (!preferencesStore.trashReview) return false
+    uiStore.toast('Restore the photo first', 'info', 1500)
+    return true
+  }
+
+  // Curation only decides about the album, library decisions stay with the normal review
+  function isBlockedInCuration(): boolean {
+    if (!preferencesStore.curationAlbum) return false
+    uiStore.toast('Not available while curating an album', 'info', 1500)
+    return true
+  }
+
+  // Album curation: keep the asset in the album, take it out, or move it to another one.
+  // Only the curation cache records it, normal sessions still show the asset.
+  function curateAsset(asset: ImmichAsset, decision: CurationDecision, target?: ImmichAlbum): void {
+    const album = preferencesStore.curationAlbum
+    if (!album) return
+
+    // Added before it is removed, so a failure never leaves it in neither album
+    if (decision === 'move' && target) {
+      addAssetToAlbum(target.id, asset.id)
+      preferencesStore.setLastUsedAlbumId(target.id)
+    }
+    if (decision !== 'keep') {
+      outboxStore.enqueue({ kind: 'albumRemove', albumId: album.id, ids: [asset.id] })
+    }
+    curatedStore.markCurated(album.id, asset.id, decision)
+
+    switch (decision) {
+      case 'remove':
+        historyStore.push({ asset, type: 'curateRemove', curatedAlbumId: album.id })
+        uiStore.toast(`Removed from ${album.albumName}`, 'info', 1500)
+        break
+      case 'move':
+        historyStore.push({
+          asset,
+          type: 'curateMove',
+          curatedAlbumId: album.id,
+          albumId: target?.id,
+          albumName: target?.albumName,
+        })
+        uiStore.toast(`Moved to ${target?.albumName ?? 'album'}`, 'success', 1800)
+        break
+      default:
+        historyStore.push({ asset, type: 'curateKeep', curatedAlbumId: album.id })
+        uiStore.toast('Kept in album ✓', 'success', 1500)
     }
+    moveToNextAsset()
   }
 
-  // Keep
   async function keepPhoto(): Promise<void> {
     if (!currentAsset.value) return
-    const assetToKeep = currentAsset.value
-    actionHistory.value.push({ asset: assetToKeep, type: 'keep' })
-    reviewedStore.markReviewed(assetToKeep.id, 'keep')
-    uiStore.incrementKept()
+    if (preferencesStore.trashReview) {
+      restoreFromTrash(currentAsset.value)
+      return
+    }
+    if (preferencesStore.curationAlbum) {
+      curateAsset(currentAsset.value, 'keep')
+      return
+    }
+    if (currentGroup.value) {
+      await resolveGroup(null)
+      return
+    }
+    recordDecision({ asset: currentAsset.value, type: 'keep' })
     uiStore.toast('Photo kept ✓', 'success', 1500)
     moveToNextAsset()
   }
 
   async function keepPhotoToAlbum(album: ImmichAlbum): Promise<void> {
     if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
+    }
+    if (isBlockedInTrash()) return
 
     const assetToKeep = currentAsset.value
-    try {
-      await addAssetToAlbum(album.id, assetToKeep.id)
-      preferencesStore.setLastUsedAlbumId(album.id)
-      actionHistory.value.push({
-        asset: assetToKeep,
-        type: 'keepToAlbum',
-        albumName: album.albumName,
-      })
-      reviewedStore.markReviewed(assetToKeep.id, 'keep')
-      uiStore.incrementKept()
-      uiStore.toast(`Added to ${album.albumName}`, 'success', 1800)
-      moveToNextAsset()
-    } catch (e) {
-      console.error('Failed to add asset to album:', e)
-      uiStore.toast('Failed to add to album', 'error')
+    const curated = preferencesStore.curationAlbum
+    if (curated) {
+      curateAsset(assetToKeep, album.id === curated.id ? 'keep' : 'move', album)
+      return
     }
+    addAssetToAlbum(album.id, assetToKeep.id)
+    preferencesStore.setLastUsedAlbumId(album.id)
+    recordDecision({
+      asset: assetToKeep,
+      type: 'keepToAlbum',
+      albumId: album.id,
+      albumName: album.albumName,
+    })
+    uiStore.toast(`Added to ${album.albumName}`, 'success', 1800)
+    moveToNextAsset()
   }
 
   async function toggleFavorite(): Promise<void> {
     if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
+    }
+    if (isBlockedInTrash() || isBlockedInCuration()) return
 
     const assetToUpdate = currentAsset.value
     const nextFavorite = !assetToUpdate.isFavorite
+    const updatedAsset = { ...assetToUpdate, isFavorite: nextFavorite }
 
-    try {
-      const updatedAsset = { ...assetToUpdate, isFavorite: nextFavorite }
+    outboxStore.enqueue({ kind: 'update', ids: [assetToUpdate.id], fields: { isFavorite: nextFavorite } })
+    currentAsset.value = updatedAsset
 
-      await apiRequest(`/assets/${assetToUpdate.id}`, {
-        method: 'PUT',
-        body: JSON.stringify({ isFavorite: nextFavorite }),
-      })
+    if (nextFavorite) {
+      recordDecision({ asset: updatedAsset, type: 'favorite' })
+      uiStore.toast('Favorited ✓', 'success', 1500)
+      moveToNextAsset()
+    } else {
+      uiStore.toast('Removed from favorites', 'info', 1500)
+    }
+  }
 
-      currentAsset.value = updatedAsset
+  // Archive: hidden from the timeline but not deleted
+  async function archivePhoto(): Promise<void> {
+    if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
+    }
+    if (isBlockedInTrash() || isBlockedInCuration()) return
 
-      if (nextFavorite) {
-        actionHistory.value.push({ asset: updatedAsset, type: 'keep' })
-        reviewedStore.markReviewed(updatedAsset.id, 'keep')
-        uiStore.incrementKept()
-        uiStore.toast('Favorited ✓', 'success', 1500)
-        moveToNextAsset()
-      } else {
-        uiStore.toast('Removed from favorites', 'info', 1500)
-      }
-    } catch (e) {
-      console.error('Failed to update favorite:', e)
-      uiStore.toast('Failed to update favorite', 'error')
+    const assetToArchive = currentAsset.value
+    outboxStore.enqueue({ kind: 'update', ids: [assetToArchive.id], fields: { isArchived: true } })
+    recordDecision({ asset: assetToArchive, type: 'archive' })
+    uiStore.toast('Photo archived', 'success', 1500)
+    moveToNextAsset()
+  }
+
+  // Rate: stars are an annotation, the photo stays up for its decision
+  async function ratePhoto(rating: number): Promise<void> {
+    if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
     }
+    if (isBlockedInTrash()) return
+
+    const assetToRate = currentAsset.value
+    const previousRating = Math.max(assetToRate.exifInfo?.rating ?? 0, 0)
+    if (rating === previousRating) return
+
+    outboxStore.enqueue({ kind: 'update', ids: [assetToRate.id], fields: { rating } })
+    currentAsset.value = withRating(assetToRate, rating)
+    historyStore.push({ asset: assetToRate, type: 'rate', rating, previousRating })
+    uiStore.toast(rating > 0 ? `Rated ${'★'.repeat(rating)}` : 'Rating cleared', 'success', 1200)
+  }
+
+  // Tag: like a rating it annotates the photo, which stays up for its decision
+  async function tagPhoto(tags: ImmichTag[]): Promise<void> {
+    if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
+    }
+    if (isBlockedInTrash()) return
+
+    const assetToTag = currentAsset.value
+    const existing = new Set(assetToTag.tags?.map((tag) => tag.id))
+    const added = tags.filter((tag) => !existing.has(tag.id))
+    if (added.length === 0) {
+      uiStore.toast(tags.length === 1 ? `Already tagged ${tags[0].value}` : 'Already tagged', 'info', 1500)
+      return
+    }
+
+    added.forEach((tag) => {
+      outboxStore.enqueue({ kind: 'tagAdd', tagId: tag.id, ids: [assetToTag.id] })
+    })
+    currentAsset.value = { ...assetToTag, tags: [...(assetToTag.tags ?? []), ...added] }
+    historyStore.push({ asset: assetToTag, type: 'tag', tags: added })
+    uiStore.toast(added.length === 1 ? `Tagged ${added[0].value}` : `Added ${added.length} tags`, 'success', 1500)
+  }
+
+  // Skip: move on without a decision, the asset may come up again later
+  async function skipPhoto(): Promise<void> {
+    if (!currentAsset.value) return
+    historyStore.push({ asset: currentAsset.value, type: 'skip' })
+    moveToNextAsset()
   }
 
   // Delete
   async function deletePhoto(): Promise<void> {
     if (!currentAsset.value) return
+    if (currentGroup.value) {
+      uiStore.toast('Pick the photo to keep', 'info', 1500)
+      return
+    }
 
     const assetToDelete = currentAsset.value
-    const success = await deleteAsset(assetToDelete.id)
 
-    if (success) {
-      actionHistory.value.push({ asset: assetToDelete, type: 'delete' })
-      reviewedStore.markReviewed(assetToDelete.id, 'delete')
-      uiStore.incrementDeleted()
-      uiStore.toast('Photo deleted', 'info', 1500)
+    if (preferencesStore.trashReview) {
+      markForPurge(assetToDelete)
+      return
+    }
+    if (preferencesStore.curationAlbum) {
+      curateAsset(assetToDelete, 'remove')
+      return
+    }
+
+    if (preferencesStore.stageDeletions) {
+      stagedStore.stage(assetToDelete)
+      recordDecision({ asset: assetToDelete, type: 'delete', staged: true })
+      uiStore.toast('Staged for deletion', 'info', 1500)
       moveToNextAsset()
+      return
+    }
+
+    deleteAsset(assetToDelete.id)
+    creditReclaimed([{ id: assetToDelete.id, size: assetToDelete.exifInfo?.fileSizeInByte }])
+    recordDecision({ asset: assetToDelete, type: 'delete' })
+    uiStore.toast('Photo deleted', 'info', 1500)
+    moveToNextAsset()
+  }
+
+  function photoCount(count: number): string {
+    return `${count} ${count === 1 ? 'photo' : 'photos'}`
+  }
+
+  // Trash review, right swipe: back into the library, counted as kept
+  function restoreFromTrash(asset: ImmichAsset): void {
+    restoreAsset(asset.id)
+    trashDecided.add(asset.id)
+    reviewedStore.markReviewed(asset.id, 'keep', asset.originalFileName)
+    historyStore.push({ asset, type: 'restore' })
+    uiStore.toast('Restored from trash', 'success', 1500)
+    moveToNextAsset()
+  }
+
+  // Trash review, left swipe: only marked, purgeMarkedAssets() deletes for good
+  function markForPurge(asset: ImmichAsset): void {
+    trashDecided.add(asset.id)
+    purgeMarked.value = [...purgeMarked.value, asset]
+    historyStore.push({ asset, type: 'purge' })
+    uiStore.toast('Marked for permanent deletion', 'info', 1500)
+    moveToNextAsset()
+  }
+
+  function dropPurgeEntries(ids: Set<string>): void {
+    historyStore.setEntries(historyStore.entries.filter((entry) => !(entry.type === 'purge' && ids.has(entry.asset.id))))
+  }
+
+  // Permanently delete the marked assets in one request, after the typed confirmation.
+  // Their history entries go as well, there is no way back from here.
+  function purgeMarkedAssets(): void {
+    const ids = purgeMarked.value.map((asset) => asset.id)
+    if (ids.length === 0) return
+
+    deleteAssets(ids, true)
+    dropPurgeEntries(new Set(ids))
+    purgeMarked.value = []
+    uiStore.toast(`${photoCount(ids.length)} permanently deleted`, 'info', 2000)
+  }
+
+  // Leaving the trash review unmarks everything, the assets just stay in the trash
+  watch(
+    () => preferencesStore.trashReview,
+    (active) => {
+      if (active || purgeMarked.value.length === 0) return
+      const ids = new Set(purgeMarked.value.map((asset) => asset.id))
+      ids.forEach((id) => trashDecided.delete(id))
+      dropPurgeEntries(ids)
+      purgeMarked.value = []
+    }
+  )
+
+  // Grid triage: one request per action, each asset counted like a swipe
+  function bulkKeep(assets: ImmichAsset[]): void {
+    if (assets.length === 0) return
+    assets.forEach((asset) => recordDecision({ asset, type: 'keep' }))
+    uiStore.toast(`Kept ${photoCount(assets.length)}`, 'success', 1500)
+  }
+
+  function bulkDelete(assets: ImmichAsset[]): void {
+    if (assets.length === 0) return
+    if (preferencesStore.stageDeletions) {
+      assets.forEach((asset) => {
+        stagedStore.stage(asset)
+        recordDecision({ asset, type: 'delete', staged: true })
+      })
+      uiStore.toast(`Staged ${assets.length} for deletion`, 'info', 1500)
+      return
+    }
+
+    deleteAssets(assets.map((asset) => asset.id))
+    creditReclaimed(assets.map((asset) => ({ id: asset.id, size: asset.exifInfo?.fileSizeInByte })))
+    assets.forEach((asset) => recordDecision({ asset, type: 'delete' }))
+    uiStore.toast(`Deleted ${photoCount(assets.length)}`, 'info', 1500)
+  }
+
+  function bulkFavorite(assets: ImmichAsset[]): void {
+    if (assets.length === 0) return
+    outboxStore.enqueue({ kind: 'update', ids: assets.map((asset) => asset.id), fields: { isFavorite: true } })
+    assets.forEach((asset) => recordDecision({ asset: { ...asset, isFavorite: true }, type: 'favorite' }))
+    uiStore.toast(`Favorited ${photoCount(assets.length)}`, 'success', 1500)
+  }
+
+  function bulkAddToAlbum(assets: ImmichAsset[], album: ImmichAlbum): void {
+    if (assets.length === 0) return
+    outboxStore.enqueue({ kind: 'albumAdd', albumId: album.id, ids: assets.map((asset) => asset.id) })
+    preferencesStore.setLastUsedAlbumId(album.id)
+    assets.forEach((asset) => recordDecision({
+      asset,
+      type: 'keepToAlbum',
+      albumId: album.id,
+      albumName: album.albumName,
+    }))
+    uiStore.toast(`Added ${assets.length} to ${album.albumName}`, 'success', 1800)
+  }
+
+  // Trash all staged assets except the rescued ones in one request
+  function commitStagedDeletions(): void {
+    const ids = stagedStore.items.map((item) => item.id)
+    if (ids.length === 0) return
+
+    deleteAssets(ids)
+    creditReclaimed(stagedStore.items.map((item) => ({ id: item.id, size: item.fileSizeInByte })))
+    stagedStore.unstage(ids)
+    const committed = new Set(ids)
+    historyStore.setEntries(historyStore.entries.map((action) =>
+      action.staged && (committed.has(action.asset.id) || action.removedIds?.some((id) => committed.has(id)))
+        ? { ...action, staged: false }
+        : action
+    ))
+    uiStore.toast(`${ids.length} moved to trash`, 'info', 2000)
+  }
+
+  // Take an asset off the staged list and count it as kept instead
+  function rescueStagedAsset(assetId: string): void {
+    if (!stagedStore.isStaged(assetId)) return
+    const stagedItem = stagedStore.items.find((item) => item.id === assetId)
+    stagedStore.unstage(assetId)
+    // A group resolution keeps its entry for the shots still staged, it only lets go of this one
+    historyStore.setEntries(historyStore.entries.flatMap((action) => {
+      if (!action.staged) return [action]
+      if (action.removedIds) {
+        if (!action.removedIds.includes(assetId)) return [action]
+        const removedIds = action.removedIds.filter((id) => id !== assetId)
+        return removedIds.length > 0 ? [{ ...action, removedIds }] : []
+      }
+      return action.asset.id === assetId ? [] : [action]
+    }))
+    reviewedStore.markReviewed(assetId, 'keep', stagedItem?.originalFileName)
+    const previous = journalStore.removeLatest(assetId)
+    journalStore.record('keep', {
+      id: assetId,
+      type: stagedItem?.type,
+      localDateTime: previous?.takenAt ?? undefined,
+    })
+    uiStore.decrementDeleted()
+    uiStore.incrementKept()
+  }
+
+  // Keep one asset of the current group and drop the rest (null keeps all of them).
+  // Duplicates go straight to the trash, burst shots are staged for deletion.
+  async function resolveGroup(keeperId: string | null): Promise<void> {
+    const group = currentGroup.value
+    if (!currentAsset.value || !group) return
+
+    const leadAsset = currentAsset.value
+    const removed = keeperId ? group.assets.filter((asset) => asset.id !== keeperId) : []
+    const staged = group.kind === 'burst'
+
+    const removedIds = removed.map((asset) => asset.id)
+    noteDeleted(removedIds)
+
+    if (staged) {
+      removed.forEach((asset) => stagedStore.stage(asset))
+    } else {
+      deleteAssets(removedIds)
+      creditReclaimed(removed.map((asset) => ({ id: asset.id, size: asset.exifInfo?.fileSizeInByte })))
+    }
+
+    for (const asset of group.assets) {
+      const decision = removedIds.includes(asset.id) ? 'delete' : 'keep'
+      reviewedStore.markReviewed(asset.id, decision, asset.originalFileName)
+      journalStore.record(decision, asset)
+      if (decision === 'keep') {
+        uiStore.incrementKept()
+      } else {
+        uiStore.incrementDeleted()
+      }
+    }
+
+    historyStore.push({ asset: leadAsset, type: 'resolveGroup', group, removedIds, staged })
+    if (removedIds.length === 0) {
+      uiStore.toast(`Kept all ${group.assets.length}`, 'success', 1500)
+    } else if (staged) {
+      uiStore.toast(`Kept 1, staged ${removedIds.length}`, 'success', 1500)
     } else {
-      uiStore.toast('Failed to delete photo', 'error')
+      uiStore.toast(`Kept 1, deleted ${removedIds.length}`, 'success', 1500)
+    }
+    moveToNextAsset()
+  }
+
+  // Reverse what a decision did on the server and in the local state; the assets count as unreviewed again
+  function revertEffects(action: HistoryEntry): void {
+    const assetId = action.asset.id
+
+    if (action.type === 'skip') return
+
+    if (action.type === 'rate') {
+      outboxStore.enqueue({ kind: 'update', ids: [assetId], fields: { rating: action.previousRating ?? 0 } })
+      return
+    }
+
+    if (action.type === 'tag') {
+      action.tags?.forEach((tag) => {
+        if (!outboxStore.cancelPending('tagAdd', assetId, tag.id)) {
+          outboxStore.enqueue({ kind: 'tagRemove', tagId: tag.id, ids: [assetId] })
+        }
+      })
+      return
+    }
+
+    if (action.type === 'curateKeep' || action.type === 'curateRemove' || action.type === 'curateMove') {
+      const albumId = action.curatedAlbumId
+      if (!albumId) return
+      curatedStore.unmarkCurated(albumId, assetId)
+      // Still queued: just don't send it
+      if (action.type !== 'curateKeep' && !outboxStore.cancelPending('albumRemove', assetId, albumId)) {
+        outboxStore.enqueue({ kind: 'albumAdd', albumId, ids: [assetId] })
+      }
+      if (action.type === 'curateMove' && action.albumId && !outboxStore.cancelPending('albumAdd', assetId, action.albumId)) {
+        outboxStore.enqueue({ kind: 'albumRemove', albumId: action.albumId, ids: [assetId] })
+      }
+      return
+    }
+
+    if (action.type === 'purge') {
+      trashDecided.delete(assetId)
+      purgeMarked.value = purgeMarked.value.filter((asset) => asset.id !== assetId)
+      return
+    }
+
+    if (action.type === 'restore') {
+      trashDecided.delete(assetId)
+      reviewedStore.unmarkReviewed(assetId)
+      // Still queued: just don't send it
+      if (!outboxStore.cancelPending('restore', assetId)) {
+        deleteAsset(assetId)
+      }
+      return
+    }
+
+    if (action.type === 'resolveGroup' && action.group) {
+      const removedIds = action.removedIds ?? []
+      if (action.staged) {
+        stagedStore.unstage(removedIds)
+      } else {
+        restoreAssets(removedIds)
+        refundReclaimed(removedIds)
+      }
+
+      for (const asset of action.group.assets) {
+        reviewedStore.unmarkReviewed(asset.id)
+        journalStore.removeLatest(asset.id)
+        if (removedIds.includes(asset.id)) {
+          uiStore.decrementDeleted()
+        } else {
+          uiStore.decrementKept()
+        }
+      }
+      return
+    }
+
+    reviewedStore.unmarkReviewed(assetId)
+    journalStore.removeLatest(assetId)
+
+    switch (action.type) {
+      case 'delete':
+        if (action.staged) {
+          stagedStore.unstage(assetId)
+        } else {
+          restoreAsset(assetId)
+          refundReclaimed([assetId])
+        }
+        uiStore.decrementDeleted()
+        break
+      case 'archive':
+        outboxStore.enqueue({ kind: 'update', ids: [assetId], fields: { isArchived: false } })
+        uiStore.decrementArchived()
+        break
+      case 'favorite':
+        outboxStore.enqueue({ kind: 'update', ids: [assetId], fields: { isFavorite: false } })
+        uiStore.decrementKept()
+        break
+      case 'keepToAlbum':
+        // Still queued: just don't send it
+        if (action.albumId && !outboxStore.cancelPending('albumAdd', assetId, action.albumId)) {
+          outboxStore.enqueue({ kind: 'albumRemove', ids: [assetId], albumId: action.albumId })
+        }
+        uiStore.decrementKept()
+        break
+      default:
+        uiStore.decrementKept()
+    }
+  }
+
+  function withRating(asset: ImmichAsset, rating: number): ImmichAsset {
+    return { ...asset, exifInfo: { ...asset.exifInfo, rating } }
+  }
+
+  // Ratings and tags don't move on to the next photo, undoing them updates it in place
+  function isAnnotation(action: HistoryEntry): boolean {
+    return action.type === 'rate' || action.type === 'tag'
+  }
+
+  function revertAnnotation(asset: ImmichAsset, action: HistoryEntry): ImmichAsset {
+    if (action.type === 'rate') return withRating(asset, action.previousRating ?? 0)
+    const removed = new Set(action.tags?.map((tag) => tag.id))
+    return { ...asset, tags: asset.tags?.filter((tag) => !removed.has(tag.id)) }
+  }
+
+  // The asset as it is after its decision was reverted
+  function revertedAsset(action: HistoryEntry): ImmichAsset {
+    if (isAnnotation(action)) return revertAnnotation(action.asset, action)
+    if (action.type === 'favorite') return { ...action.asset, isFavorite: false }
+    if (action.type === 'archive') return { ...action.asset, isArchived: false }
+    return action.asset
+  }
+
+  function undoToast(action: HistoryEntry): string {
+    switch (action.type) {
+      case 'resolveGroup':
+        return 'Back to previous group'
+      case 'restore':
+        return 'Moved back to the trash'
+      case 'purge':
+        return 'No longer marked for deletion'
+      case 'curateRemove':
+        return 'Put back into the album'
+      case 'curateMove':
+        return action.albumName ? `Moved back from ${action.albumName}` : 'Moved back into the album'
+      case 'delete':
+        return action.staged ? 'Back to previous photo' : `${action.asset.originalFileName} was restored`
+      case 'archive':
+        return 'Moved back out of the archive'
+      case 'skip':
+        return 'Back to skipped photo'
+      case 'rate':
+        return action.previousRating ? `Rating back to ${action.previousRating} ★` : 'Rating cleared'
+      case 'tag':
+        return action.tags?.length === 1 ? `Removed tag ${action.tags[0].value}` : 'Tags removed'
+      case 'keepToAlbum':
+        return action.albumName ? `Back to photo (removed from ${action.albumName})` : 'Back to previous photo'
+      default:
+        return 'Back to previous photo'
     }
   }
 
-  // Undo last action (keep/delete/album)
+  // Undo last action and show its asset again
   async function undoLastAction(): Promise<void> {
-    const lastAction = actionHistory.value.pop()
+    const lastAction = historyStore.pop()
     if (!lastAction) {
       uiStore.toast('Nothing to undo', 'info', 1500)
       return
@@ -550,55 +1598,87 @@ export function useImmich() {
     const assetToResumeAfterUndo = currentAsset.value
     const preloadedAfterResume = nextAsset.value
 
-    if (lastAction.type === 'delete') {
-      const success = await restoreAsset(lastAction.asset.id)
-      if (!success) {
-        actionHistory.value.push(lastAction)
-        uiStore.toast('Failed to restore photo', 'error')
-        return
-      }
-
-      reviewedStore.unmarkReviewed(lastAction.asset.id)
-      uiStore.decrementDeleted()
-      uiStore.toast(`${lastAction.asset.originalFileName} was restored`, 'success', 2500)
-      if (preloadedAfterResume?.id !== assetToResumeAfterUndo?.id) {
-        enqueuePendingAsset(preloadedAfterResume)
-      }
-      setCurrentAssetWithFallback(lastAction.asset, assetToResumeAfterUndo)
+    revertEffects(lastAction)
+    // A trashed asset only belongs on screen in the trash review
+    if ((lastAction.type === 'restore' || lastAction.type === 'purge') && !preferencesStore.trashReview) {
+      uiStore.toast(undoToast(lastAction), 'info', 1500)
       return
     }
-
-    reviewedStore.unmarkReviewed(lastAction.asset.id)
-    uiStore.decrementKept()
-    if (lastAction.type === 'keepToAlbum' && lastAction.albumName) {
-      uiStore.toast(`Back to photo (in ${lastAction.albumName})`, 'info', 2000)
-    } else {
-      uiStore.toast('Back to previous photo', 'info', 1500)
+    // The annotated photo is normally still on screen
+    if (isAnnotation(lastAction) && assetToResumeAfterUndo?.id === lastAction.asset.id) {
+      currentAsset.value = revertAnnotation(assetToResumeAfterUndo, lastAction)
+      uiStore.toast(undoToast(lastAction), 'info', 1500)
+      return
+    }
+    if (lastAction.type === 'resolveGroup' && lastAction.group) {
+      assetGroups.value.set(lastAction.asset.id, lastAction.group)
     }
+    uiStore.toast(undoToast(lastAction), lastAction.type === 'delete' && !lastAction.staged ? 'success' : 'info', 1500)
     if (preloadedAfterResume?.id !== assetToResumeAfterUndo?.id) {
       enqueuePendingAsset(preloadedAfterResume)
     }
-    setCurrentAssetWithFallback(lastAction.asset, assetToResumeAfterUndo)
+    setCurrentAssetWithFallback(revertedAsset(lastAction), assetToResumeAfterUndo)
+  }
+
+  // Revert any past decision from the history panel. The latest one behaves like undo;
+  // older ones are reverted in place and their assets come up again later.
+  async function revertHistoryEntry(entryId: string): Promise<void> {
+    const latest = historyStore.entries[historyStore.entries.length - 1]
+    if (latest?.id === entryId) {
+      await undoLastAction()
+      return
+    }
+
+    const entry = historyStore.remove(entryId)
+    if (!entry) return
+    revertEffects(entry)
+    if (isAnnotation(entry) && currentAsset.value?.id === entry.asset.id) {
+      currentAsset.value = revertAnnotation(currentAsset.value, entry)
+    }
+    uiStore.toast(entry.type === 'skip' ? 'Removed from history' : 'Decision reverted', 'info', 1500)
   }
 
-  const canUndo = computed(() => actionHistory.value.length > 0)
+  const canUndo = computed(() => historyStore.count > 0)
 
   return {
     currentAsset,
+    currentGroup,
     nextAsset,
     error,
     testConnection,
     loadInitialAsset,
+    startChronologicalFrom,
     keepPhoto,
     keepPhotoToAlbum,
     toggleFavorite,
     deletePhoto,
+    archivePhoto,
+    skipPhoto,
+    ratePhoto,
+    tagPhoto,
+    resolveGroup,
+    bulkKeep,
+    bulkDelete,
+    bulkFavorite,
+    bulkAddToAlbum,
+    takeChronologicalPage,
+    commitStagedDeletions,
+    rescueStagedAsset,
     undoLastAction,
+    revertHistoryEntry,
     canUndo,
     getAssetThumbnailUrl,
     getAssetOriginalUrl,
     getAuthHeaders,
     fetchAlbums,
+    fetchTags,
+    createTag,
+    fetchPeople,
+    fetchAssetStatistics,
+    sessionProgress,
+    refreshScopeTotal,
     addAssetToAlbum,
+    purgeMarked,
+    purgeMarkedAssets,
   }
 }
@@ -0,0 +1,117 @@
+import { useAuthStore } from '@/stores/auth'
+import { analyzePixels, assessQuality, SAMPLE_MAX_SIDE } from '@/utils/quality'
+import type { PixelMetrics, QualityReport } from '@/utils/quality'
+import type { ImmichAsset } from '@/types/immich'
+
+// Shared by every caller, so the card, the quality order and later sessions reuse the same scores
+const CACHE_SIZE = 2000
+const MAX_CONCURRENT = 3
+
+const reports = new Map<string, QualityReport>()
+const inFlight = new Map<string, Promise<QualityReport>>()
+
+function remember(id: string, report: QualityReport) {
+  reports.delete(id)
+  reports.set(id, report)
+  if (reports.size > CACHE_SIZE) {
+    reports.delete(reports.keys().next().value as string)
+  }
+}
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+export function useQuality() {
+  const authStore = useAuthStore()
+
+  // The small thumbnail is plenty for these measures and much cheaper than the preview
+  async function measure(assetId: string): Promise<PixelMetrics | null> {
+    if (!authStore.immichBaseUrl || typeof createImageBitmap !== 'function') return null
+
+    const response = await fetch(
+      `${authStore.immichBaseUrl}${authStore.proxyBaseUrl}/assets/${assetId}/thumbnail?size=thumbnail`,
+      {
+        headers: {
+          'x-api-key': authStore.apiKey,
+          'X-Target-Host': authStore.immichBaseUrl,
+        },
+      }
+    )
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const bitmap = await createImageBitmap(await response.blob())
+    try {
+      const scale = Math.min(1, SAMPLE_MAX_SIDE / Math.max(bitmap.width, bitmap.height))
+      const width = Math.max(1, Math.round(bitmap.width * scale))
+      const height = Math.max(1, Math.round(bitmap.height * scale))
+      const context = createCanvas(width, height).getContext('2d') as
+        | OffscreenCanvasRenderingContext2D
+        | CanvasRenderingContext2D
+        | null
+      if (!context) return null
+      context.drawImage(bitmap, 0, 0, width, height)
+      return analyzePixels(context.getImageData(0, 0, width, height).data, width, height)
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  function cachedReport(assetId: string): QualityReport | null {
+    return reports.get(assetId) ?? null
+  }
+
+  // Videos and undecodable thumbnails are judged on their metadata alone
+  async function analyze(asset: ImmichAsset): Promise<QualityReport> {
+    const cached = reports.get(asset.id)
+    if (cached) return cached
+    const pending = inFlight.get(asset.id)
+    if (pending) return pending
+
+    const run = (async () => {
+      let metrics: PixelMetrics | null = null
+      let failed = false
+      if (asset.type === 'IMAGE') {
+        try {
+          metrics = await measure(asset.id)
+        } catch (e) {
+          console.error(`Failed to analyze ${asset.originalFileName}:`, e)
+          failed = true
+        }
+      }
+      const report = assessQuality(asset, metrics)
+      // A failed download gets another try next time
+      if (!failed) remember(asset.id, report)
+      return report
+    })().finally(() => inFlight.delete(asset.id))
+    inFlight.set(asset.id, run)
+    return run
+  }
+
+  async function analyzeAll(assets: ImmichAsset[]): Promise<Map<string, QualityReport>> {
+    const results = new Map<string, QualityReport>()
+    let next = 0
+    const worker = async () => {
+      while (next < assets.length) {
+        const asset = assets[next++]
+        results.set(asset.id, await analyze(asset))
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT, assets.length) }, worker))
+    return results
+  }
+
+  return {
+    analyze,
+    analyzeAll,
+    cachedReport,
+  }
+}
@@ -0,0 +1,115 @@
+import { ref } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import { useHistoryStore } from '@/stores/history'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useReviewSyncStore } from '@/stores/reviewSync'
+import { useUiStore } from '@/stores/ui'
+import {
+  buildReviewCsv,
+  downloadFile,
+  parseReviewExport,
+  REVIEW_EXPORT_FORMAT,
+  REVIEW_EXPORT_VERSION,
+} from '@/utils/reviewExport'
+import type { ReviewExport } from '@/utils/reviewExport'
+
+export type ImportMode = 'merge' | 'replace'
+
+export function useReviewBackup() {
+  const authStore = useAuthStore()
+  const preferencesStore = usePreferencesStore()
+  const reviewedStore = useReviewedStore()
+  const uiStore = useUiStore()
+  const reviewSyncStore = useReviewSyncStore()
+  const historyStore = useHistoryStore()
+
+  const isImporting = ref(false)
+
+  function fileBaseName(): string {
+    const user = (authStore.currentUserName || 'default-user').replace(/[^a-z0-9_-]+/gi, '-')
+    const date = new Date().toISOString().slice(0, 10)
+    return `immich-swipe-${user}-${date}`
+  }
+
+  async function buildExport(): Promise<ReviewExport> {
+    await reviewedStore.whenReady()
+    return {
+      format: REVIEW_EXPORT_FORMAT,
+      version: REVIEW_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      server: authStore.serverUrl,
+      user: authStore.currentUserName,
+      stats: {
+        keptCount: uiStore.keptCount,
+        deletedCount: uiStore.deletedCount,
+        archivedCount: uiStore.archivedCount,
+        reclaimedBytes: uiStore.reclaimedBytes,
+      },
+      preferences: preferencesStore.snapshot(),
+      reviewed: reviewedStore.entries(),
+    }
+  }
+
+  async function exportJson() {
+    const data = await buildExport()
+    downloadFile(`${fileBaseName()}.json`, JSON.stringify(data, null, 2), 'application/json')
+  }
+
+  async function exportCsv() {
+    await reviewedStore.whenReady()
+    downloadFile(`${fileBaseName()}.csv`, buildReviewCsv(reviewedStore.entries()), 'text/csv')
+  }
+
+  // Merge keeps local decisions, stats and settings and adds what is missing;
+  // replace takes everything from the file.
+  async function applyImport(data: ReviewExport, mode: ImportMode): Promise<number> {
+    await reviewedStore.whenReady()
+    const added = reviewedStore.importEntries(data.reviewed, mode)
+
+    if (mode === 'replace') {
+      // Past decisions no longer match the replaced ones, so they can't be reverted anymore
+      historyStore.clear()
+      uiStore.setStats(data.stats)
+      preferencesStore.applySnapshot(data.preferences)
+    } else {
+      const countOf = (decision: string) => added.filter((entry) => entry.decision === decision).length
+      uiStore.setStats({
+        keptCount: uiStore.keptCount + countOf('keep'),
+        deletedCount: uiStore.deletedCount + countOf('delete'),
+        archivedCount: uiStore.archivedCount + countOf('archive'),
+      })
+    }
+    // Imported keeps reach the server tag through the regular reconcile
+    void reviewSyncStore.reconcile()
+    return added.length
+  }
+
+  async function importFile(file: File, mode: ImportMode): Promise<boolean> {
+    isImporting.value = true
+    try {
+      const data = parseReviewExport(await file.text())
+      const added = await applyImport(data, mode)
+      uiStore.toast(
+        mode === 'replace' ? `Restored ${added} reviewed items` : `Imported ${added} new reviewed items`,
+        'success'
+      )
+      return true
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      console.error('Failed to import review history:', e)
+      uiStore.toast(`Import failed: ${message}`, 'error')
+      return false
+    } finally {
+      isImporting.value = false
+    }
+  }
+
+  return {
+    isImporting,
+    exportJson,
+    exportCsv,
+    applyImport,
+    importFile,
+  }
+}
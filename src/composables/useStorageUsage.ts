@@ -0,0 +1,48 @@
+import { ref } from 'vue'
+import { apiRequest } from '@/utils/api'
+import type { ImmichUser, ServerStorage } from '@/types/immich'
+
+export interface StorageUsage {
+  // What the user's assets take up, and their quota (null = unlimited)
+  usedBytes: number | null
+  quotaBytes: number | null
+  // Disk of the server, shown when the user has no quota
+  diskUsedBytes: number | null
+  diskSizeBytes: number | null
+}
+
+export function useStorageUsage() {
+  const usage = ref<StorageUsage | null>(null)
+  const isLoading = ref(false)
+
+  // Either endpoint may be unavailable (older servers, restricted keys); show what we get
+  async function refresh(): Promise<void> {
+    isLoading.value = true
+    try {
+      const [user, storage] = await Promise.allSettled([
+        apiRequest<ImmichUser>('/users/me'),
+        apiRequest<ServerStorage>('/server/storage'),
+      ])
+      const me = user.status === 'fulfilled' ? user.value : null
+      const disk = storage.status === 'fulfilled' ? storage.value : null
+      if (!me && !disk) {
+        console.error('Failed to load storage usage', user, storage)
+        return
+      }
+      usage.value = {
+        usedBytes: me?.quotaUsageInBytes ?? null,
+        quotaBytes: me?.quotaSizeInBytes ?? null,
+        diskUsedBytes: disk?.diskUseRaw ?? null,
+        diskSizeBytes: disk?.diskSizeRaw ?? null,
+      }
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  return {
+    usage,
+    isLoading,
+    refresh,
+  }
+}
@@ -1,108 +1,220 @@
-import { ref, onMounted, onUnmounted, type Ref } from 'vue'
+import { ref, onMounted, onUnmounted, toValue, type MaybeRefOrGetter, type Ref } from 'vue'
 
 interface SwipeOptions {
   threshold?: number
+  // While false every pointer movement is ignored, e.g. when a zoomed image is panned
+  enabled?: MaybeRefOrGetter<boolean>
   onSwipeLeft?: () => void
   onSwipeRight?: () => void
+  onSwipeUp?: () => void
+  onSwipeDown?: () => void
+  onLongPress?: () => void
+  onDoubleTap?: () => void
 }
 
+type SwipeDirection = 'left' | 'right' | 'up' | 'down'
+
+const LONG_PRESS_MS = 550
+const DOUBLE_TAP_MS = 300
+// Movement below this still counts as a tap or press
+const TAP_SLOP = 10
+// Browsers replay a touch as mouse events afterwards; those must not count twice
+const TOUCH_MOUSE_GUARD_MS = 800
+
 export function useSwipe(elementRef: Ref<HTMLElement | null>, options: SwipeOptions = {}) {
-  const { threshold = 80, onSwipeLeft, onSwipeRight } = options
+  const { threshold = 80, enabled = true, onSwipeLeft, onSwipeRight, onSwipeUp, onSwipeDown, onLongPress, onDoubleTap } = options
 
   const startX = ref(0)
   const startY = ref(0)
   const currentX = ref(0)
+  const currentY = ref(0)
   const isSwiping = ref(false)
   const swipeOffset = ref(0)
-  const swipeDirection = ref<'left' | 'right' | null>(null)
+  const swipeOffsetY = ref(0)
+  const swipeDirection = ref<SwipeDirection | null>(null)
 
-  let element: HTMLElement | null = null
+  let longPressTimer: ReturnType<typeof setTimeout> | null = null
+  let longPressFired = false
+  let lastTapAt = 0
+  let lastTouchAt = 0
 
-  function handleTouchStart(e: TouchEvent) {
-    const touch = e.touches[0]
-    startX.value = touch.clientX
-    startY.value = touch.clientY
-    currentX.value = touch.clientX
-    isSwiping.value = true
-    swipeDirection.value = null
+  function hasVerticalHandler(deltaY: number): boolean {
+    return deltaY < 0 ? !!onSwipeUp : !!onSwipeDown
   }
 
-  function handleTouchMove(e: TouchEvent) {
-    if (!isSwiping.value) return
-
-    const touch = e.touches[0]
-    currentX.value = touch.clientX
-
-    const deltaX = currentX.value - startX.value
-    const deltaY = touch.clientY - startY.value
-
-    // Only track horizontal swipes
+  // Follow the dominant axis; vertical drags only count when that direction has a handler
+  function track(deltaX: number, deltaY: number): boolean {
+    if (Math.abs(deltaX) > TAP_SLOP || Math.abs(deltaY) > TAP_SLOP) {
+      cancelLongPress()
+    }
     if (Math.abs(deltaX) > Math.abs(deltaY)) {
-      e.preventDefault()
       swipeOffset.value = deltaX
+      swipeOffsetY.value = 0
       swipeDirection.value = deltaX > 0 ? 'right' : 'left'
+      return true
     }
+    if (deltaY !== 0 && hasVerticalHandler(deltaY)) {
+      swipeOffset.value = 0
+      swipeOffsetY.value = deltaY
+      swipeDirection.value = deltaY < 0 ? 'up' : 'down'
+      return true
+    }
+    return false
   }
 
-  function handleTouchEnd() {
+  function begin(x: number, y: number) {
+    if (!toValue(enabled)) return
+    startX.value = x
+    startY.value = y
+    currentX.value = x
+    currentY.value = y
+    isSwiping.value = true
+    swipeDirection.value = null
+    longPressFired = false
+    cancelLongPress()
+    if (onLongPress) {
+      longPressTimer = setTimeout(() => {
+        longPressTimer = null
+        longPressFired = true
+        reset()
+        onLongPress()
+      }, LONG_PRESS_MS)
+    }
+  }
+
+  function finish() {
+    cancelLongPress()
     if (!isSwiping.value) return
+    if (!toValue(enabled)) {
+      reset()
+      return
+    }
 
     const deltaX = currentX.value - startX.value
+    const deltaY = currentY.value - startY.value
 
-    if (Math.abs(deltaX) > threshold) {
+    if (swipeDirection.value === 'up' || swipeDirection.value === 'down') {
+      if (Math.abs(deltaY) > threshold) {
+        if (deltaY < 0 && onSwipeUp) {
+          onSwipeUp()
+        } else if (deltaY > 0 && onSwipeDown) {
+          onSwipeDown()
+        }
+      }
+    } else if (Math.abs(deltaX) > threshold) {
       if (deltaX > 0 && onSwipeRight) {
         onSwipeRight()
       } else if (deltaX < 0 && onSwipeLeft) {
         onSwipeLeft()
       }
+    } else if (Math.abs(deltaX) <= TAP_SLOP && Math.abs(deltaY) <= TAP_SLOP) {
+      handleTap()
     }
 
-    // Reset
+    reset()
+  }
+
+  function handleTap() {
+    const now = Date.now()
+    if (onDoubleTap && now - lastTapAt <= DOUBLE_TAP_MS) {
+      lastTapAt = 0
+      onDoubleTap()
+      return
+    }
+    lastTapAt = now
+  }
+
+  function cancelLongPress() {
+    if (longPressTimer) {
+      clearTimeout(longPressTimer)
+      longPressTimer = null
+    }
+  }
+
+  function reset() {
     isSwiping.value = false
     swipeOffset.value = 0
+    swipeOffsetY.value = 0
     swipeDirection.value = null
   }
 
-  function handleMouseDown(e: MouseEvent) {
-    startX.value = e.clientX
-    currentX.value = e.clientX
-    isSwiping.value = true
-    swipeDirection.value = null
+  function isReplayedTouch(): boolean {
+    return Date.now() - lastTouchAt < TOUCH_MOUSE_GUARD_MS
   }
 
-  function handleMouseMove(e: MouseEvent) {
-    if (!isSwiping.value) return
+  let element: HTMLElement | null = null
 
-    currentX.value = e.clientX
-    const deltaX = currentX.value - startX.value
-    swipeOffset.value = deltaX
-    swipeDirection.value = deltaX > 0 ? 'right' : 'left'
+  // A second finger means pinch, never swipe
+  function cancelGesture() {
+    cancelLongPress()
+    lastTapAt = 0
+    reset()
   }
 
-  function handleMouseUp() {
+  function handleTouchStart(e: TouchEvent) {
+    lastTouchAt = Date.now()
+    if (e.touches.length > 1) {
+      cancelGesture()
+      return
+    }
+    const touch = e.touches[0]
+    begin(touch.clientX, touch.clientY)
+  }
+
+  function handleTouchMove(e: TouchEvent) {
     if (!isSwiping.value) return
+    if (e.touches.length > 1 || !toValue(enabled)) {
+      cancelGesture()
+      return
+    }
 
-    const deltaX = currentX.value - startX.value
+    const touch = e.touches[0]
+    currentX.value = touch.clientX
+    currentY.value = touch.clientY
 
-    if (Math.abs(deltaX) > threshold) {
-      if (deltaX > 0 && onSwipeRight) {
-        onSwipeRight()
-      } else if (deltaX < 0 && onSwipeLeft) {
-        onSwipeLeft()
-      }
+    if (track(currentX.value - startX.value, currentY.value - startY.value)) {
+      e.preventDefault()
+    }
+  }
+
+  function handleTouchEnd() {
+    lastTouchAt = Date.now()
+    finish()
+  }
+
+  function handleContextMenu(e: Event) {
+    // Keep the long-press menu of the browser from covering the card
+    if (onLongPress && (longPressFired || isSwiping.value)) {
+      e.preventDefault()
     }
+  }
 
-    // Reset
-    isSwiping.value = false
-    swipeOffset.value = 0
-    swipeDirection.value = null
+  function handleMouseDown(e: MouseEvent) {
+    if (e.button !== 0 || isReplayedTouch()) return
+    begin(e.clientX, e.clientY)
+  }
+
+  function handleMouseMove(e: MouseEvent) {
+    if (!isSwiping.value || isReplayedTouch()) return
+    if (!toValue(enabled)) {
+      cancelGesture()
+      return
+    }
+
+    currentX.value = e.clientX
+    currentY.value = e.clientY
+    track(currentX.value - startX.value, currentY.value - startY.value)
+  }
+
+  function handleMouseUp() {
+    if (isReplayedTouch()) return
+    finish()
   }
 
   function handleMouseLeave() {
+    cancelLongPress()
     if (isSwiping.value) {
-      isSwiping.value = false
-      swipeOffset.value = 0
-      swipeDirection.value = null
+      reset()
     }
   }
 
@@ -114,6 +226,7 @@ export function useSwipe(elementRef: Ref<HTMLElement | null>, options: SwipeOpti
       element.addEventListener('touchmove', handleTouchMove, { passive: false })
       element.addEventListener('touchend', handleTouchEnd)
       element.addEventListener('touchcancel', handleTouchEnd)
+      element.addEventListener('contextmenu', handleContextMenu)
 
       // Mouse events (for desktop)
       element.addEventListener('mousedown', handleMouseDown)
@@ -124,11 +237,13 @@ export function useSwipe(elementRef: Ref<HTMLElement | null>, options: SwipeOpti
   })
 
   onUnmounted(() => {
+    cancelLongPress()
     if (element) {
       element.removeEventListener('touchstart', handleTouchStart)
       element.removeEventListener('touchmove', handleTouchMove)
       element.removeEventListener('touchend', handleTouchEnd)
       element.removeEventListener('touchcancel', handleTouchEnd)
+      element.removeEventListener('contextmenu', handleContextMenu)
 
       element.removeEventListener('mousedown', handleMouseDown)
       element.removeEventListener('mousemove', handleMouseMove)
@@ -140,6 +255,7 @@ export function useSwipe(elementRef: Ref<HTMLElement | null>, options: SwipeOpti
   return {
     isSwiping,
     swipeOffset,
+    swipeOffsetY,
     swipeDirection,
   }
 }
@@ -0,0 +1,263 @@
+import { computed, onMounted, onUnmounted, ref, toValue, type MaybeRefOrGetter, type Ref } from 'vue'
+
+interface ZoomOptions {
+  maxScale?: number
+  // Scale a double tap zooms to
+  tapScale?: number
+  enabled?: MaybeRefOrGetter<boolean>
+  // Double tap only zooms when it isn't bound to an action; it always zooms back out
+  doubleTapZoom?: MaybeRefOrGetter<boolean>
+}
+
+const DOUBLE_TAP_MS = 300
+const TAP_SLOP = 10
+// Below this the image snaps back to its fitted size
+const MIN_ZOOM = 1.02
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Pinch, wheel and double-tap zoom with panning. Listeners sit on the element itself,
+// which is also what gets transformed through `zoomStyle`.
+export function useZoom(elementRef: Ref<HTMLElement | null>, options: ZoomOptions = {}) {
+  const { maxScale = 5, tapScale = 2.5, enabled = true, doubleTapZoom = true } = options
+
+  const scale = ref(1)
+  const translateX = ref(0)
+  const translateY = ref(0)
+  const isPinching = ref(false)
+  const isPanning = ref(false)
+
+  const isZoomed = computed(() => scale.value > 1)
+  const zoomStyle = computed(() => ({
+    transform: `translate(${translateX.value}px, ${translateY.value}px) scale(${scale.value})`,
+    transition: isPinching.value || isPanning.value ? 'none' : 'transform 0.2s ease-out',
+    transformOrigin: 'center center',
+  }))
+
+  let pinchStart: { distance: number; scale: number; midX: number; midY: number; x: number; y: number } | null = null
+  let panStart: { pointerX: number; pointerY: number; x: number; y: number } | null = null
+  let lastTapAt = 0
+  let tapStart: { x: number; y: number } | null = null
+
+  let element: HTMLElement | null = null
+
+  function reset() {
+    scale.value = 1
+    translateX.value = 0
+    translateY.value = 0
+    isPinching.value = false
+    isPanning.value = false
+    pinchStart = null
+    panStart = null
+  }
+
+  // Keep the image covering the frame, it can't be dragged out of view
+  function clampTranslation() {
+    if (!element) return
+    const maxX = (element.clientWidth * (scale.value - 1)) / 2
+    const maxY = (element.clientHeight * (scale.value - 1)) / 2
+    translateX.value = clamp(translateX.value, -maxX, maxX)
+    translateY.value = clamp(translateY.value, -maxY, maxY)
+  }
+
+  // Offset of a viewport point from the untransformed center of the element
+  function fromCenter(clientX: number, clientY: number): { x: number; y: number } {
+    if (!element) return { x: 0, y: 0 }
+    const rect = element.getBoundingClientRect()
+    // The rect is transformed, its center moves with the translation
+    return {
+      x: clientX - (rect.left + rect.width / 2) + translateX.value,
+      y: clientY - (rect.top + rect.height / 2) + translateY.value,
+    }
+  }
+
+  // Scale around a point so the pixel under it stays put
+  function zoomAt(nextScale: number, point: { x: number; y: number }, from = { scale: scale.value, x: translateX.value, y: translateY.value }) {
+    const target = clamp(nextScale, 1, maxScale)
+    if (target < MIN_ZOOM) {
+      reset()
+      return
+    }
+    const ratio = target / from.scale
+    translateX.value = point.x - (point.x - from.x) * ratio
+    translateY.value = point.y - (point.y - from.y) * ratio
+    scale.value = target
+    clampTranslation()
+  }
+
+  function toggleZoomAt(clientX: number, clientY: number) {
+    if (isZoomed.value) {
+      reset()
+    } else if (toValue(doubleTapZoom)) {
+      zoomAt(tapScale, fromCenter(clientX, clientY))
+    }
+  }
+
+  function handleWheel(e: WheelEvent) {
+    if (!toValue(enabled)) return
+    e.preventDefault()
+    zoomAt(scale.value * Math.exp(-e.deltaY * 0.0015), fromCenter(e.clientX, e.clientY))
+  }
+
+  function startPinch(e: TouchEvent) {
+    const [a, b] = [e.touches[0], e.touches[1]]
+    const mid = fromCenter((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2)
+    pinchStart = {
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY) || 1,
+      scale: scale.value,
+      midX: mid.x,
+      midY: mid.y,
+      x: translateX.value,
+      y: translateY.value,
+    }
+    isPinching.value = true
+    panStart = null
+    isPanning.value = false
+  }
+
+  function startPan(clientX: number, clientY: number) {
+    panStart = { pointerX: clientX, pointerY: clientY, x: translateX.value, y: translateY.value }
+    isPanning.value = true
+  }
+
+  function movePan(clientX: number, clientY: number) {
+    if (!panStart) return
+    translateX.value = panStart.x + clientX - panStart.pointerX
+    translateY.value = panStart.y + clientY - panStart.pointerY
+    clampTranslation()
+  }
+
+  function handleTouchStart(e: TouchEvent) {
+    if (!toValue(enabled)) return
+    if (e.touches.length === 2) {
+      tapStart = null
+      startPinch(e)
+      return
+    }
+    if (e.touches.length === 1) {
+      const touch = e.touches[0]
+      tapStart = { x: touch.clientX, y: touch.clientY }
+      if (isZoomed.value) {
+        startPan(touch.clientX, touch.clientY)
+      }
+    }
+  }
+
+  function handleTouchMove(e: TouchEvent) {
+    if (pinchStart && e.touches.length === 2) {
+      e.preventDefault()
+      const [a, b] = [e.touches[0], e.touches[1]]
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+      const mid = fromCenter((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2)
+      zoomAt(
+        pinchStart.scale * (distance / pinchStart.distance),
+        { x: pinchStart.midX, y: pinchStart.midY },
+        { scale: pinchStart.scale, x: pinchStart.x, y: pinchStart.y }
+      )
+      // Moving both fingers pans as well
+      if (isZoomed.value) {
+        translateX.value += mid.x - pinchStart.midX
+        translateY.value += mid.y - pinchStart.midY
+        clampTranslation()
+      }
+      return
+    }
+    if (panStart && e.touches.length === 1) {
+      e.preventDefault()
+      movePan(e.touches[0].clientX, e.touches[0].clientY)
+    }
+    if (tapStart && e.touches.length === 1) {
+      const touch = e.touches[0]
+      if (Math.abs(touch.clientX - tapStart.x) > TAP_SLOP || Math.abs(touch.clientY - tapStart.y) > TAP_SLOP) {
+        tapStart = null
+      }
+    }
+  }
+
+  function handleTouchEnd(e: TouchEvent) {
+    if (pinchStart && e.touches.length < 2) {
+      pinchStart = null
+      isPinching.value = false
+      // The finger left on the screen keeps panning
+      if (e.touches.length === 1 && isZoomed.value) {
+        startPan(e.touches[0].clientX, e.touches[0].clientY)
+      }
+      return
+    }
+    if (e.touches.length === 0) {
+      panStart = null
+      isPanning.value = false
+      if (tapStart) {
+        const now = Date.now()
+        if (now - lastTapAt <= DOUBLE_TAP_MS) {
+          lastTapAt = 0
+          toggleZoomAt(tapStart.x, tapStart.y)
+        } else {
+          lastTapAt = now
+        }
+      }
+      tapStart = null
+    }
+  }
+
+  function handleMouseDown(e: MouseEvent) {
+    if (e.button !== 0 || !isZoomed.value || !toValue(enabled)) return
+    e.preventDefault()
+    startPan(e.clientX, e.clientY)
+  }
+
+  function handleMouseMove(e: MouseEvent) {
+    if (!panStart) return
+    movePan(e.clientX, e.clientY)
+  }
+
+  function handleMouseUp() {
+    panStart = null
+    isPanning.value = false
+  }
+
+  function handleDoubleClick(e: MouseEvent) {
+    if (!toValue(enabled)) return
+    toggleZoomAt(e.clientX, e.clientY)
+  }
+
+  onMounted(() => {
+    element = elementRef.value
+    if (element) {
+      element.addEventListener('wheel', handleWheel, { passive: false })
+      element.addEventListener('touchstart', handleTouchStart, { passive: true })
+      element.addEventListener('touchmove', handleTouchMove, { passive: false })
+      element.addEventListener('touchend', handleTouchEnd)
+      element.addEventListener('touchcancel', handleTouchEnd)
+      element.addEventListener('mousedown', handleMouseDown)
+      element.addEventListener('dblclick', handleDoubleClick)
+      window.addEventListener('mousemove', handleMouseMove)
+      window.addEventListener('mouseup', handleMouseUp)
+    }
+  })
+
+  onUnmounted(() => {
+    if (element) {
+      element.removeEventListener('wheel', handleWheel)
+      element.removeEventListener('touchstart', handleTouchStart)
+      element.removeEventListener('touchmove', handleTouchMove)
+      element.removeEventListener('touchend', handleTouchEnd)
+      element.removeEventListener('touchcancel', handleTouchEnd)
+      element.removeEventListener('mousedown', handleMouseDown)
+      element.removeEventListener('dblclick', handleDoubleClick)
+    }
+    window.removeEventListener('mousemove', handleMouseMove)
+    window.removeEventListener('mouseup', handleMouseUp)
+  })
+
+  return {
+    scale,
+    isZoomed,
+    isPinching,
+    isPanning,
+    zoomStyle,
+    reset,
+  }
+}
@@ -10,6 +10,36 @@ const router = createRouter({
       component: () => import('@/views/HomeView.vue'),
       meta: { requiresAuth: true },
     },
+    {
+      path: '/staged',
+      name: 'staged',
+      component: () => import('@/views/StagedDeletionsView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/grid',
+      name: 'grid',
+      component: () => import('@/views/GridTriageView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/stats',
+      name: 'stats',
+      component: () => import('@/views/StatsView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/rules',
+      name: 'rules',
+      component: () => import('@/views/RulesView.vue'),
+      meta: { requiresAuth: true },
+    },
+    {
+      path: '/settings',
+      name: 'settings',
+      component: () => import('@/views/SettingsView.vue'),
+      meta: { requiresAuth: true },
+    },
     {
       path: '/login',
       name: 'login',
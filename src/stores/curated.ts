@@ -0,0 +1,102 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+
+export type CurationDecision = 'keep' | 'remove' | 'move'
+
+interface CuratedPayload {
+  v: 1
+  // Album id -> asset id -> decision
+  albums: Record<string, Record<string, CurationDecision>>
+}
+
+const STORAGE_PREFIX = 'immich-swipe-curated'
+const STORAGE_VERSION = 1
+
+// Album curation progress, kept apart from the reviewed cache: an asset kept or taken out of
+// one album still comes up in normal review sessions and when curating other albums
+export const useCuratedStore = defineStore('curated', () => {
+  const authStore = useAuthStore()
+  const albums = ref<Record<string, Record<string, CurationDecision>>>({})
+  const initialized = ref(false)
+
+  const storageKey = computed(() => {
+    const server = authStore.serverUrl || 'unknown-server'
+    const user = authStore.currentUserName || 'default-user'
+    return `${STORAGE_PREFIX}:${server}:${user}`
+  })
+
+  function loadFromStorage() {
+    initialized.value = false
+    albums.value = {}
+
+    const raw = localStorage.getItem(storageKey.value)
+    if (!raw) {
+      initialized.value = true
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<CuratedPayload>
+      albums.value = parsed.albums && typeof parsed.albums === 'object' ? parsed.albums : {}
+    } catch (e) {
+      console.error('Failed to parse album curation from localStorage', e)
+    } finally {
+      initialized.value = true
+    }
+  }
+
+  function persist() {
+    if (!initialized.value) return
+    const payload: CuratedPayload = {
+      v: STORAGE_VERSION,
+      albums: albums.value,
+    }
+    localStorage.setItem(storageKey.value, JSON.stringify(payload))
+  }
+
+  function getDecision(albumId: string, assetId: string): CurationDecision | null {
+    return albums.value[albumId]?.[assetId] ?? null
+  }
+
+  function isCurated(albumId: string, assetId: string): boolean {
+    return getDecision(albumId, assetId) !== null
+  }
+
+  function countFor(albumId: string): number {
+    return Object.keys(albums.value[albumId] ?? {}).length
+  }
+
+  function markCurated(albumId: string, assetId: string, decision: CurationDecision) {
+    albums.value = {
+      ...albums.value,
+      [albumId]: { ...albums.value[albumId], [assetId]: decision },
+    }
+    persist()
+  }
+
+  function unmarkCurated(albumId: string, assetId: string) {
+    if (!isCurated(albumId, assetId)) return
+    const { [assetId]: _, ...rest } = albums.value[albumId]
+    albums.value = { ...albums.value, [albumId]: rest }
+    persist()
+  }
+
+  // Start the album over, the next curation session shows every asset again
+  function clearAlbum(albumId: string) {
+    const { [albumId]: _, ...rest } = albums.value
+    albums.value = rest
+    persist()
+  }
+
+  watch(storageKey, () => loadFromStorage(), { immediate: true })
+
+  return {
+    getDecision,
+    isCurated,
+    countFor,
+    markCurated,
+    unmarkCurated,
+    clearAlbum,
+  }
+})
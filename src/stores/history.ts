@@ -0,0 +1,153 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import type { ImmichAsset, ImmichTag, ReviewGroup } from '@/types/immich'
+
+export type HistoryActionType =
+  | 'keep'
+  | 'delete'
+  | 'archive'
+  | 'favorite'
+  | 'skip'
+  | 'keepToAlbum'
+  | 'resolveGroup'
+  | 'rate'
+  | 'tag'
+  // Trash review: taken back out of the trash, or marked for permanent deletion
+  | 'restore'
+  | 'purge'
+  // Album curation: kept in the album, taken out of it, or moved to another one (albumId)
+  | 'curateKeep'
+  | 'curateRemove'
+  | 'curateMove'
+
+export interface HistoryEntry {
+  id: string
+  type: HistoryActionType
+  asset: ImmichAsset
+  // When the decision was made (epoch ms)
+  at: number
+  albumId?: string
+  albumName?: string
+  staged?: boolean
+  group?: ReviewGroup
+  removedIds?: string[]
+  // Star rating set by a `rate` entry and the one it replaced
+  rating?: number
+  previousRating?: number
+  // Tags added by a `tag` entry, ones the asset already had are left out
+  tags?: ImmichTag[]
+  // The album being curated, for the curate* entries
+  curatedAlbumId?: string
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'at'>
+
+interface HistoryPayload {
+  v: 1
+  entries: HistoryEntry[]
+}
+
+const STORAGE_PREFIX = 'immich-swipe-history'
+const STORAGE_VERSION = 1
+// Oldest entries fall off beyond this, they can no longer be reverted from the app
+export const HISTORY_LIMIT = 200
+
+function createEntryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Decisions of the review flow, newest last, persisted per server/user so they can be reverted after a reload
+export const useHistoryStore = defineStore('history', () => {
+  const authStore = useAuthStore()
+  const entries = ref<HistoryEntry[]>([])
+  const initialized = ref(false)
+
+  const storageKey = computed(() => {
+    const server = authStore.serverUrl || 'unknown-server'
+    const user = authStore.currentUserName || 'default-user'
+    return `${STORAGE_PREFIX}:${server}:${user}`
+  })
+
+  const count = computed(() => entries.value.length)
+
+  function loadFromStorage() {
+    initialized.value = false
+    entries.value = []
+
+    const raw = localStorage.getItem(storageKey.value)
+    if (!raw) {
+      initialized.value = true
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<HistoryPayload>
+      const stored = Array.isArray(parsed.entries) ? parsed.entries : []
+      // Purge marks only live as long as the trash review that made them, a reload ends it
+      entries.value = stored.filter((entry) =>
+        entry && typeof entry.id === 'string' && !!entry.asset?.id && entry.type !== 'purge'
+      )
+    } catch (e) {
+      console.error('Failed to parse review history from localStorage', e)
+    } finally {
+      initialized.value = true
+    }
+  }
+
+  function persist() {
+    if (!initialized.value) return
+    const payload: HistoryPayload = {
+      v: STORAGE_VERSION,
+      entries: entries.value,
+    }
+    try {
+      localStorage.setItem(storageKey.value, JSON.stringify(payload))
+    } catch (e) {
+      // Quota exceeded: the history still works for this session
+      console.error('Failed to persist review history', e)
+    }
+  }
+
+  function setEntries(next: HistoryEntry[]) {
+    entries.value = next.slice(-HISTORY_LIMIT)
+    persist()
+  }
+
+  function push(entry: NewHistoryEntry): HistoryEntry {
+    const stored: HistoryEntry = { ...entry, id: createEntryId(), at: Date.now() }
+    setEntries([...entries.value, stored])
+    return stored
+  }
+
+  function pop(): HistoryEntry | undefined {
+    const last = entries.value[entries.value.length - 1]
+    if (last) {
+      setEntries(entries.value.slice(0, -1))
+    }
+    return last
+  }
+
+  function remove(id: string): HistoryEntry | null {
+    const entry = entries.value.find((item) => item.id === id)
+    if (!entry) return null
+    setEntries(entries.value.filter((item) => item.id !== id))
+    return entry
+  }
+
+  function clear() {
+    setEntries([])
+  }
+
+  watch(storageKey, () => loadFromStorage(), { immediate: true })
+
+  return {
+    entries,
+    count,
+    push,
+    pop,
+    remove,
+    setEntries,
+    clear,
+  }
+})
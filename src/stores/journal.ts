@@ -0,0 +1,130 @@
+import { defineStore } from 'pinia'
+import { computed, shallowRef, triggerRef, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import { isIndexedDbAvailable, JOURNAL_STORE, requestToPromise, runTransaction } from '@/utils/idb'
+import type { ImmichAsset } from '@/types/immich'
+
+export type JournalAction = 'keep' | 'delete' | 'album' | 'favorite' | 'archive'
+
+export interface JournalEntry {
+  id: string
+  namespace: string
+  action: JournalAction
+  assetId: string
+  assetType: ImmichAsset['type'] | null
+  // When the photo was taken (ISO string), null when unknown
+  takenAt: string | null
+  // When the decision was made (epoch ms)
+  at: number
+}
+
+type JournalAsset = Pick<ImmichAsset, 'id'> & Partial<Pick<ImmichAsset, 'type' | 'exifInfo' | 'localDateTime' | 'fileCreatedAt'>>
+
+function createEntryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Decision log for the stats dashboard. Undone decisions are removed again, so the
+// journal only holds what still stands. Without IndexedDB it lives for the session only.
+export const useJournalStore = defineStore('journal', () => {
+  const authStore = useAuthStore()
+
+  const entries = shallowRef<JournalEntry[]>([])
+  const isLoaded = shallowRef(false)
+  let readyPromise: Promise<void> = Promise.resolve()
+  // IndexedDB writes are chained so a removal never overtakes its insert
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const namespace = computed(() => {
+    const server = authStore.serverUrl || 'unknown-server'
+    const user = authStore.currentUserName || 'default-user'
+    return `${server}:${user}`
+  })
+
+  function queueWrite(write: () => Promise<unknown>) {
+    if (!isIndexedDbAvailable()) return
+    writeChain = writeChain
+      .then(() => write())
+      .then(() => undefined)
+      .catch((e) => {
+        console.error('Failed to persist decision journal', e)
+      })
+  }
+
+  async function loadFromStorage() {
+    const currentNamespace = namespace.value
+    if (!isIndexedDbAvailable()) {
+      isLoaded.value = true
+      return
+    }
+
+    try {
+      await writeChain
+      const stored = await runTransaction(JOURNAL_STORE, 'readonly', (tx) => {
+        const index = tx.objectStore(JOURNAL_STORE).index('namespace')
+        return requestToPromise(index.getAll(currentNamespace) as IDBRequest<JournalEntry[]>)
+      })
+      if (currentNamespace !== namespace.value) return
+
+      const known = new Set(entries.value.map((entry) => entry.id))
+      entries.value = [...stored.filter((entry) => !known.has(entry.id)), ...entries.value]
+        .sort((a, b) => a.at - b.at)
+    } catch (e) {
+      console.error('Failed to load decision journal from IndexedDB', e)
+    } finally {
+      if (currentNamespace === namespace.value) {
+        isLoaded.value = true
+      }
+    }
+  }
+
+  function record(action: JournalAction, asset: JournalAsset) {
+    const entry: JournalEntry = {
+      id: createEntryId(),
+      namespace: namespace.value,
+      action,
+      assetId: asset.id,
+      assetType: asset.type ?? null,
+      takenAt: asset.exifInfo?.dateTimeOriginal || asset.localDateTime || asset.fileCreatedAt || null,
+      at: Date.now(),
+    }
+    entries.value.push(entry)
+    triggerRef(entries)
+    queueWrite(() => runTransaction(JOURNAL_STORE, 'readwrite', (tx) => {
+      tx.objectStore(JOURNAL_STORE).put(entry)
+    }))
+  }
+
+  // Drop the latest entry of an asset, used when its decision is undone
+  function removeLatest(assetId: string): JournalEntry | null {
+    for (let i = entries.value.length - 1; i >= 0; i--) {
+      const entry = entries.value[i]
+      if (entry.assetId !== assetId) continue
+      entries.value.splice(i, 1)
+      triggerRef(entries)
+      queueWrite(() => runTransaction(JOURNAL_STORE, 'readwrite', (tx) => {
+        tx.objectStore(JOURNAL_STORE).delete(entry.id)
+      }))
+      return entry
+    }
+    return null
+  }
+
+  function whenReady(): Promise<void> {
+    return readyPromise.then(() => writeChain)
+  }
+
+  watch(namespace, () => {
+    entries.value = []
+    isLoaded.value = false
+    readyPromise = loadFromStorage()
+  }, { immediate: true })
+
+  return {
+    entries,
+    isLoaded,
+    record,
+    removeLatest,
+    whenReady,
+  }
+})
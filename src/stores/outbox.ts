@@ -0,0 +1,325 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import { useUiStore } from '@/stores/ui'
+import { ApiError, apiRequest } from '@/utils/api'
+import { isIndexedDbAvailable, OUTBOX_STORE, requestToPromise, runTransaction } from '@/utils/idb'
+
+export type OutboxKind = 'albumAdd' | 'albumRemove' | 'delete' | 'restore' | 'update' | 'tagAdd' | 'tagRemove'
+
+export interface AssetUpdateFields {
+  isFavorite?: boolean
+  isArchived?: boolean
+  // 0–5 stars, 0 clears the rating
+  rating?: number
+}
+
+export interface OutboxMutation {
+  kind: OutboxKind
+  ids: string[]
+  albumId?: string
+  tagId?: string
+  force?: boolean
+  fields?: AssetUpdateFields
+}
+
+export interface OutboxEntry extends OutboxMutation {
+  id: string
+  namespace: string
+  createdAt: number
+  attempts: number
+  nextAttemptAt: number
+}
+
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 5 * 60 * 1000
+const MAX_BATCH_IDS = 500
+
+function createEntryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Entries can share one request when they hit the same endpoint with the same options
+function batchKey(entry: OutboxMutation): string {
+  return JSON.stringify([entry.kind, entry.albumId ?? null, entry.tagId ?? null, !!entry.force, entry.fields ?? null])
+}
+
+// Network failures, timeouts, rate limits and server errors are worth retrying
+function isRetryable(e: unknown): boolean {
+  if (!(e instanceof ApiError)) return true
+  return e.status === 408 || e.status === 429 || e.status >= 500
+}
+
+function sendMutation(mutation: OutboxMutation): Promise<unknown> {
+  switch (mutation.kind) {
+    case 'albumAdd':
+      return apiRequest(`/albums/${mutation.albumId}/assets`, {
+        method: 'PUT',
+        body: JSON.stringify({ ids: mutation.ids }),
+      })
+    case 'albumRemove':
+      return apiRequest(`/albums/${mutation.albumId}/assets`, {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: mutation.ids }),
+      })
+    case 'delete':
+      return apiRequest('/assets', {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: mutation.ids, force: !!mutation.force }),
+      })
+    case 'restore':
+      return apiRequest('/trash/restore/assets', {
+        method: 'POST',
+        body: JSON.stringify({ ids: mutation.ids }),
+      })
+    case 'update':
+      return apiRequest('/assets', {
+        method: 'PUT',
+        body: JSON.stringify({ ids: mutation.ids, ...mutation.fields }),
+      })
+    case 'tagAdd':
+      return apiRequest(`/tags/${mutation.tagId}/assets`, {
+        method: 'PUT',
+        body: JSON.stringify({ ids: mutation.ids }),
+      })
+    case 'tagRemove':
+      return apiRequest(`/tags/${mutation.tagId}/assets`, {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: mutation.ids }),
+      })
+  }
+}
+
+export const useOutboxStore = defineStore('outbox', () => {
+  const authStore = useAuthStore()
+  const uiStore = useUiStore()
+
+  const entries = ref<OutboxEntry[]>([])
+  const isDraining = ref(false)
+  const lastError = ref<string | null>(null)
+  const inFlightIds = new Set<string>()
+  // Entries sent or dropped this session; a slow initial load must not bring them back
+  const settledIds = new Set<string>()
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let drainPromise: Promise<void> | null = null
+  // IndexedDB writes are chained so a removal never overtakes its insert
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const namespace = computed(() => {
+    const server = authStore.serverUrl || 'unknown-server'
+    const user = authStore.currentUserName || 'default-user'
+    return `${server}:${user}`
+  })
+
+  const pendingCount = computed(() =>
+    entries.value.reduce((total, entry) => total + entry.ids.length, 0)
+  )
+
+  function queueWrite(write: () => Promise<unknown>) {
+    if (!isIndexedDbAvailable()) return
+    writeChain = writeChain
+      .then(() => write())
+      .then(() => undefined)
+      .catch((e) => {
+        console.error('Failed to persist outbox', e)
+      })
+  }
+
+  function persistEntry(entry: OutboxEntry) {
+    const copy: OutboxEntry = JSON.parse(JSON.stringify(entry))
+    queueWrite(() => runTransaction(OUTBOX_STORE, 'readwrite', (tx) => {
+      tx.objectStore(OUTBOX_STORE).put(copy)
+    }))
+  }
+
+  function removeEntries(ids: string[]) {
+    if (ids.length === 0) return
+    ids.forEach((id) => settledIds.add(id))
+    queueWrite(() => runTransaction(OUTBOX_STORE, 'readwrite', (tx) => {
+      const store = tx.objectStore(OUTBOX_STORE)
+      ids.forEach((id) => store.delete(id))
+    }))
+  }
+
+  async function loadFromStorage() {
+    const currentNamespace = namespace.value
+    if (!isIndexedDbAvailable()) return
+
+    try {
+      await writeChain
+      const stored = await runTransaction(OUTBOX_STORE, 'readonly', (tx) => {
+        const index = tx.objectStore(OUTBOX_STORE).index('namespace')
+        return requestToPromise(index.getAll(currentNamespace) as IDBRequest<OutboxEntry[]>)
+      })
+      if (currentNamespace !== namespace.value) return
+
+      const known = new Set(entries.value.map((entry) => entry.id))
+      const restored = stored.filter((entry) => !known.has(entry.id) && !settledIds.has(entry.id))
+      entries.value = [...restored, ...entries.value].sort((a, b) => a.createdAt - b.createdAt)
+      if (entries.value.length > 0) {
+        void drain()
+      }
+    } catch (e) {
+      console.error('Failed to load outbox from IndexedDB', e)
+    }
+  }
+
+  function scheduleRetry() {
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    const head = entries.value[0]
+    if (!head) return
+    const delay = Math.max(0, head.nextAttemptAt - Date.now())
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      void drain()
+    }, delay)
+  }
+
+  // Merge the head of the queue with the consecutive entries that share its endpoint
+  function takeBatch(): OutboxEntry[] {
+    const [head] = entries.value
+    if (!head) return []
+    const key = batchKey(head)
+    const batch = [head]
+    let idCount = head.ids.length
+    for (const entry of entries.value.slice(1)) {
+      if (batchKey(entry) !== key || idCount + entry.ids.length > MAX_BATCH_IDS) break
+      batch.push(entry)
+      idCount += entry.ids.length
+    }
+    return batch
+  }
+
+  async function processQueue() {
+    while (entries.value.length > 0) {
+      const head = entries.value[0]
+      if (head.nextAttemptAt > Date.now()) {
+        scheduleRetry()
+        return
+      }
+
+      const batch = takeBatch()
+      const ids = Array.from(new Set(batch.flatMap((entry) => entry.ids)))
+      batch.forEach((entry) => inFlightIds.add(entry.id))
+
+      try {
+        await sendMutation({ ...head, ids })
+        const sent = new Set(batch.map((entry) => entry.id))
+        entries.value = entries.value.filter((entry) => !sent.has(entry.id))
+        removeEntries(batch.map((entry) => entry.id))
+        lastError.value = null
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'Request failed'
+        if (!isRetryable(e)) {
+          console.error('Dropping outbox entry after permanent failure:', e)
+          const dropped = new Set(batch.map((entry) => entry.id))
+          entries.value = entries.value.filter((entry) => !dropped.has(entry.id))
+          removeEntries(batch.map((entry) => entry.id))
+          uiStore.toast(`Sync failed: ${message}`, 'error')
+          continue
+        }
+
+        lastError.value = message
+        // Back off on the head only; later entries wait so the order is kept
+        head.attempts += 1
+        head.nextAttemptAt = Date.now() + Math.min(RETRY_BASE_MS * 2 ** (head.attempts - 1), RETRY_MAX_MS)
+        persistEntry(head)
+        scheduleRetry()
+        return
+      } finally {
+        batch.forEach((entry) => inFlightIds.delete(entry.id))
+      }
+    }
+  }
+
+  async function drainQueue() {
+    await processQueue()
+    await writeChain
+  }
+
+  function drain(): Promise<void> {
+    if (drainPromise) return drainPromise
+    if (!authStore.isLoggedIn) return Promise.resolve()
+
+    isDraining.value = true
+    drainPromise = drainQueue().finally(() => {
+      isDraining.value = false
+      drainPromise = null
+    })
+    return drainPromise
+  }
+
+  function enqueue(mutation: OutboxMutation) {
+    if (mutation.ids.length === 0) return
+    const entry: OutboxEntry = {
+      ...mutation,
+      ids: [...mutation.ids],
+      id: createEntryId(),
+      namespace: namespace.value,
+      createdAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: 0,
+    }
+    entries.value = [...entries.value, entry]
+    persistEntry(entry)
+    void drain()
+  }
+
+  // Drop an asset from a pending (not yet sent) entry. Returns false when it was already sent.
+  // `targetId` narrows it down to one album or tag.
+  function cancelPending(kind: OutboxKind, assetId: string, targetId?: string): boolean {
+    for (let i = entries.value.length - 1; i >= 0; i--) {
+      const entry = entries.value[i]
+      if (entry.kind !== kind || !entry.ids.includes(assetId)) continue
+      if (targetId !== undefined && (entry.albumId ?? entry.tagId) !== targetId) continue
+      if (inFlightIds.has(entry.id)) return false
+
+      const ids = entry.ids.filter((id) => id !== assetId)
+      if (ids.length === 0) {
+        entries.value = entries.value.filter((item) => item.id !== entry.id)
+        removeEntries([entry.id])
+      } else {
+        const updated = { ...entry, ids }
+        entries.value = entries.value.map((item) => (item.id === entry.id ? updated : item))
+        persistEntry(updated)
+      }
+      return true
+    }
+    return false
+  }
+
+  function retryNow() {
+    entries.value.forEach((entry) => {
+      entry.nextAttemptAt = 0
+    })
+    void drain()
+  }
+
+  watch(namespace, () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    entries.value = []
+    lastError.value = null
+    void loadFromStorage()
+  }, { immediate: true })
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => retryNow())
+  }
+
+  return {
+    entries,
+    pendingCount,
+    isDraining,
+    lastError,
+    enqueue,
+    cancelPending,
+    drain,
+    retryNow,
+  }
+})
@@ -1,48 +1,117 @@
 import { defineStore } from 'pinia'
 import { computed, ref, watch } from 'vue'
 import { useAuthStore } from '@/stores/auth'
+import { createDefaultBindings, isBindingInput, sanitizeBindings } from '@/utils/bindings'
+import type { BindingAction, Bindings } from '@/utils/bindings'
+import type { ImmichAlbum, ReviewScope } from '@/types/immich'
+import { sanitizeTriageRules } from '@/utils/rules'
+import type { TriageRule } from '@/utils/rules'
 
-type ReviewOrder = 'random' | 'chronological' | 'chronological-desc'
+type ReviewOrder = 'random' | 'chronological' | 'chronological-desc' | 'quality' | 'duplicates'
+export type ChronologicalOrder = 'chronological' | 'chronological-desc'
 
-interface StoredPreferences {
+// Where a chronological session left off, as the creation date of the asset on screen.
+// Only valid for the scope it was recorded in.
+export interface ChronologicalCursor {
+  takenAt: string
+  scope: string
+}
+
+export interface StoredPreferences {
   reviewOrder: ReviewOrder
   albumHotkeys: Record<string, string>
+  // Slot -> tag id, for the `tag:N` binding actions
+  tagHotkeys: Record<string, string>
   lastUsedAlbumId: string | null
+  stageDeletions: boolean
+  reviewScope: ReviewScope
+  syncReviewed: boolean
+  bindings: Bindings
+  chronologicalCursors: Partial<Record<ChronologicalOrder, ChronologicalCursor>>
+  // Active smart search session; while set it replaces the review order
+  smartQuery: string | null
+  recentSmartQueries: string[]
+  // Auto-triage rules, checked in order
+  triageRules: TriageRule[]
+  // Album being curated; while set only its assets are reviewed
+  curationAlbum: CurationAlbum | null
 }
 
+export type CurationAlbum = Pick<ImmichAlbum, 'id' | 'albumName'>
+
 const STORAGE_PREFIX = 'immich-swipe-preferences'
+const MAX_RECENT_SMART_QUERIES = 8
+
+function createRuleId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// Stable key for a scope, independent of the order its fields were set in
+function scopeKey(scope: ReviewScope): string {
+  return JSON.stringify(Object.entries(scope).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+}
 
 export const usePreferencesStore = defineStore('preferences', () => {
   const authStore = useAuthStore()
 
   const reviewOrder = ref<ReviewOrder>('random')
   const albumHotkeys = ref<Record<string, string>>({})
+  const tagHotkeys = ref<Record<string, string>>({})
   const lastUsedAlbumId = ref<string | null>(null)
+  const stageDeletions = ref(false)
+  const reviewScope = ref<ReviewScope>({})
+  const syncReviewed = ref(false)
+  const bindings = ref<Bindings>(createDefaultBindings())
+  const chronologicalCursors = ref<Partial<Record<ChronologicalOrder, ChronologicalCursor>>>({})
+  const smartQuery = ref<string | null>(null)
+  const recentSmartQueries = ref<string[]>([])
+  const triageRules = ref<TriageRule[]>([])
+  // Not persisted: purging is destructive, so a reload always lands in the normal review
+  const trashReview = ref(false)
+  const curationAlbum = ref<CurationAlbum | null>(null)
 
   const initialized = ref(false)
 
+  const hasReviewScope = computed(() =>
+    Object.values(reviewScope.value).some((value) =>
+      Array.isArray(value) ? value.length > 0 : !!value
+    )
+  )
+
   const storageKey = computed(() => {
     const server = authStore.serverUrl || 'unknown-server'
     const user = authStore.currentUserName || 'default-user'
     return `${STORAGE_PREFIX}:${server}:${user}`
   })
 
+  function applySnapshot(parsed: Partial<StoredPreferences>) {
+    reviewOrder.value = parsed.reviewOrder ?? 'random'
+    albumHotkeys.value = parsed.albumHotkeys ?? {}
+    tagHotkeys.value = parsed.tagHotkeys ?? {}
+    lastUsedAlbumId.value = parsed.lastUsedAlbumId ?? null
+    stageDeletions.value = parsed.stageDeletions ?? false
+    reviewScope.value = parsed.reviewScope ?? {}
+    syncReviewed.value = parsed.syncReviewed ?? false
+    bindings.value = sanitizeBindings(parsed.bindings) ?? createDefaultBindings()
+    chronologicalCursors.value = parsed.chronologicalCursors ?? {}
+    smartQuery.value = parsed.smartQuery ?? null
+    recentSmartQueries.value = parsed.recentSmartQueries ?? []
+    triageRules.value = sanitizeTriageRules(parsed.triageRules)
+    trashReview.value = false
+    curationAlbum.value = parsed.curationAlbum ?? null
+  }
+
   function loadFromStorage() {
     initialized.value = false
     const raw = localStorage.getItem(storageKey.value)
     if (!raw) {
-      reviewOrder.value = 'random'
-      albumHotkeys.value = {}
-      lastUsedAlbumId.value = null
+      applySnapshot({})
       initialized.value = true
       return
     }
 
     try {
-      const parsed = JSON.parse(raw) as Partial<StoredPreferences>
-      reviewOrder.value = parsed.reviewOrder ?? 'random'
-      albumHotkeys.value = parsed.albumHotkeys ?? {}
-      lastUsedAlbumId.value = parsed.lastUsedAlbumId ?? null
+      applySnapshot(JSON.parse(raw) as Partial<StoredPreferences>)
     } catch (e) {
       console.error('Failed to parse preferences from localStorage', e)
     } finally {
@@ -50,14 +119,27 @@ export const usePreferencesStore = defineStore('preferences', () => {
     }
   }
 
-  function persist() {
-    if (!initialized.value) return
-    const payload: StoredPreferences = {
+  function snapshot(): StoredPreferences {
+    return {
       reviewOrder: reviewOrder.value,
       albumHotkeys: albumHotkeys.value,
+      tagHotkeys: tagHotkeys.value,
       lastUsedAlbumId: lastUsedAlbumId.value,
+      stageDeletions: stageDeletions.value,
+      reviewScope: reviewScope.value,
+      syncReviewed: syncReviewed.value,
+      bindings: bindings.value,
+      chronologicalCursors: chronologicalCursors.value,
+      smartQuery: smartQuery.value,
+      recentSmartQueries: recentSmartQueries.value,
+      triageRules: triageRules.value,
+      curationAlbum: curationAlbum.value,
     }
-    localStorage.setItem(storageKey.value, JSON.stringify(payload))
+  }
+
+  function persist() {
+    if (!initialized.value) return
+    localStorage.setItem(storageKey.value, JSON.stringify(snapshot()))
   }
 
   function setReviewOrder(order: ReviewOrder) {
@@ -76,16 +158,162 @@ export const usePreferencesStore = defineStore('preferences', () => {
     albumHotkeys.value = rest
   }
 
+  function setTagHotkey(slot: string, tagId: string) {
+    tagHotkeys.value = {
+      ...tagHotkeys.value,
+      [slot]: tagId,
+    }
+  }
+
+  function clearTagHotkey(slot: string) {
+    const { [slot]: _, ...rest } = tagHotkeys.value
+    tagHotkeys.value = rest
+  }
+
   function setLastUsedAlbumId(albumId: string | null) {
     lastUsedAlbumId.value = albumId
   }
 
+  function toggleStageDeletions() {
+    stageDeletions.value = !stageDeletions.value
+  }
+
+  function setReviewScope(scope: ReviewScope) {
+    reviewScope.value = { ...scope }
+  }
+
+  function clearReviewScope() {
+    reviewScope.value = {}
+  }
+
+  function getChronologicalCursor(order: ChronologicalOrder): string | null {
+    const cursor = chronologicalCursors.value[order]
+    return cursor && cursor.scope === scopeKey(reviewScope.value) ? cursor.takenAt : null
+  }
+
+  function setChronologicalCursor(order: ChronologicalOrder, takenAt: string) {
+    const scope = scopeKey(reviewScope.value)
+    const current = chronologicalCursors.value[order]
+    if (current?.takenAt === takenAt && current.scope === scope) return
+    chronologicalCursors.value = {
+      ...chronologicalCursors.value,
+      [order]: { takenAt, scope },
+    }
+  }
+
+  function clearChronologicalCursor(order: ChronologicalOrder) {
+    const { [order]: _, ...rest } = chronologicalCursors.value
+    chronologicalCursors.value = rest
+  }
+
+  // Most recent first, the same query in another case counts once
+  function startSmartSearch(query: string) {
+    const trimmed = query.trim()
+    if (!trimmed) return
+    smartQuery.value = trimmed
+    trashReview.value = false
+    curationAlbum.value = null
+    recentSmartQueries.value = [
+      trimmed,
+      ...recentSmartQueries.value.filter((item) => item.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SMART_QUERIES)
+  }
+
+  function endSmartSearch() {
+    smartQuery.value = null
+  }
+
+  function removeRecentSmartQuery(query: string) {
+    recentSmartQueries.value = recentSmartQueries.value.filter((item) => item !== query)
+  }
+
+  function startTrashReview() {
+    trashReview.value = true
+    smartQuery.value = null
+    curationAlbum.value = null
+  }
+
+  function endTrashReview() {
+    trashReview.value = false
+  }
+
+  function startCuration(album: CurationAlbum) {
+    curationAlbum.value = { id: album.id, albumName: album.albumName }
+    smartQuery.value = null
+    trashReview.value = false
+  }
+
+  function endCuration() {
+    curationAlbum.value = null
+  }
+
+  function addTriageRule(rule: Omit<TriageRule, 'id'>): TriageRule {
+    const created = { ...rule, id: createRuleId() }
+    triageRules.value = [...triageRules.value, created]
+    return created
+  }
+
+  function updateTriageRule(id: string, changes: Partial<Omit<TriageRule, 'id'>>) {
+    triageRules.value = triageRules.value.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule))
+  }
+
+  function removeTriageRule(id: string) {
+    triageRules.value = triageRules.value.filter((rule) => rule.id !== id)
+  }
+
+  // Earlier rules win, so the order is part of the configuration
+  function moveTriageRule(id: string, offset: -1 | 1) {
+    const index = triageRules.value.findIndex((rule) => rule.id === id)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= triageRules.value.length) return
+    const next = [...triageRules.value]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    triageRules.value = next
+  }
+
+  function toggleSyncReviewed() {
+    syncReviewed.value = !syncReviewed.value
+  }
+
+  // Replaces whatever the input was bound to before; callers check for conflicts first
+  function setBinding(input: string, action: BindingAction) {
+    if (!isBindingInput(input)) return
+    bindings.value = {
+      ...bindings.value,
+      [input]: action,
+    }
+  }
+
+  function clearBinding(input: string) {
+    const { [input]: _, ...rest } = bindings.value
+    bindings.value = rest
+  }
+
+  function resetBindings() {
+    bindings.value = createDefaultBindings()
+  }
+
   // Load on init and whenever user/server changes
   watch(storageKey, () => loadFromStorage(), { immediate: true })
 
   // Persist on changes
   watch(
-    [reviewOrder, albumHotkeys, lastUsedAlbumId, storageKey],
+    [
+      reviewOrder,
+      albumHotkeys,
+      tagHotkeys,
+      lastUsedAlbumId,
+      stageDeletions,
+      reviewScope,
+      syncReviewed,
+      bindings,
+      chronologicalCursors,
+      smartQuery,
+      recentSmartQueries,
+      triageRules,
+      curationAlbum,
+      storageKey,
+    ],
     () => persist(),
     { deep: true }
   )
@@ -93,10 +321,47 @@ export const usePreferencesStore = defineStore('preferences', () => {
   return {
     reviewOrder,
     albumHotkeys,
+    tagHotkeys,
     lastUsedAlbumId,
+    stageDeletions,
+    reviewScope,
+    syncReviewed,
+    bindings,
+    chronologicalCursors,
+    smartQuery,
+    recentSmartQueries,
+    triageRules,
+    trashReview,
+    curationAlbum,
+    hasReviewScope,
     setReviewOrder,
     setHotkey,
     clearHotkey,
+    setTagHotkey,
+    clearTagHotkey,
     setLastUsedAlbumId,
+    toggleStageDeletions,
+    setReviewScope,
+    clearReviewScope,
+    getChronologicalCursor,
+    setChronologicalCursor,
+    clearChronologicalCursor,
+    startSmartSearch,
+    endSmartSearch,
+    removeRecentSmartQuery,
+    startTrashReview,
+    endTrashReview,
+    startCuration,
+    endCuration,
+    addTriageRule,
+    updateTriageRule,
+    removeTriageRule,
+    moveTriageRule,
+    toggleSyncReviewed,
+    setBinding,
+    clearBinding,
+    resetBindings,
+    snapshot,
+    applySnapshot,
   }
 })
@@ -0,0 +1,198 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ReviewDecision } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import { apiRequest } from '@/utils/api'
+import type { ImmichTag, MetadataSearchRequest, MetadataSearchResponse } from '@/types/immich'
+
+// Kept and archived assets carry this tag on the server, so other devices can skip them.
+// Deleted assets need no marker: they sit in the trash and never come back in a search.
+export const REVIEWED_TAG_NAME = 'immich-swipe-reviewed'
+
+const SEARCH_PAGE_SIZE = 1000
+const TAG_CHUNK_SIZE = 500
+
+function staysInLibrary(decision: ReviewDecision | null): boolean {
+  return decision === 'keep' || decision === 'archive'
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export const useReviewSyncStore = defineStore('reviewSync', () => {
+  const authStore = useAuthStore()
+  const preferencesStore = usePreferencesStore()
+  const reviewedStore = useReviewedStore()
+  const outboxStore = useOutboxStore()
+  const uiStore = useUiStore()
+
+  const tagId = ref<string | null>(null)
+  const isReconciling = ref(false)
+  const lastSyncedAt = ref<number | null>(null)
+  const lastError = ref<string | null>(null)
+  let reconcilePromise: Promise<void> | null = null
+
+  const namespace = computed(() => `${authStore.serverUrl}:${authStore.currentUserName}`)
+  const isEnabled = computed(() => preferencesStore.syncReviewed && authStore.isLoggedIn)
+
+  async function findTag(): Promise<ImmichTag | null> {
+    const tags = await apiRequest<ImmichTag[]>('/tags')
+    return (Array.isArray(tags) ? tags : []).find(
+      (tag) => tag.value === REVIEWED_TAG_NAME || tag.name === REVIEWED_TAG_NAME
+    ) ?? null
+  }
+
+  async function ensureTag(): Promise<string> {
+    if (tagId.value) return tagId.value
+
+    const tag = await findTag() ?? await apiRequest<ImmichTag>('/tags', {
+      method: 'POST',
+      body: JSON.stringify({ name: REVIEWED_TAG_NAME }),
+    })
+    tagId.value = tag.id
+    return tag.id
+  }
+
+  async function fetchTaggedIds(id: string): Promise<string[]> {
+    const ids: string[] = []
+    let page: number | null = 1
+
+    while (page !== null) {
+      const body: MetadataSearchRequest = { tagIds: [id], page, size: SEARCH_PAGE_SIZE }
+      const response: MetadataSearchResponse = await apiRequest<MetadataSearchResponse>('/search/metadata', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      const items = response?.assets?.items ?? response?.items ?? []
+      items.forEach((asset) => ids.push(asset.id))
+
+      const next = response?.assets?.nextPage ?? response?.nextPage ?? null
+      const parsed = next === null ? NaN : Number(next)
+      page = items.length > 0 && !Number.isNaN(parsed) ? parsed : null
+    }
+
+    return ids
+  }
+
+  function tagAssets(kind: 'tagAdd' | 'tagRemove', id: string, assetIds: string[]) {
+    chunk(assetIds, TAG_CHUNK_SIZE).forEach((ids) => {
+      outboxStore.enqueue({ kind, tagId: id, ids })
+    })
+  }
+
+  // Pull the server's kept ids into the local cache and push local ones the server is missing
+  async function runReconcile() {
+    const startedFor = namespace.value
+    await reviewedStore.whenReady()
+    const id = await ensureTag()
+    const remoteIds = await fetchTaggedIds(id)
+    if (startedFor !== namespace.value) return
+
+    reviewedStore.mergeKept(remoteIds)
+    const remote = new Set(remoteIds)
+    const missing = reviewedStore.keptIds().filter((assetId) => !remote.has(assetId))
+    tagAssets('tagAdd', id, missing)
+
+    lastSyncedAt.value = Date.now()
+    lastError.value = null
+  }
+
+  function reconcile(): Promise<void> {
+    if (!isEnabled.value) return Promise.resolve()
+    if (reconcilePromise) return reconcilePromise
+
+    isReconciling.value = true
+    reconcilePromise = runReconcile()
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : 'Unknown error'
+        console.error('Failed to sync review progress:', e)
+        lastError.value = message
+        uiStore.toast(`Review sync failed: ${message}`, 'error')
+      })
+      .finally(() => {
+        isReconciling.value = false
+        reconcilePromise = null
+      })
+    return reconcilePromise
+  }
+
+  // Resolves once a running reconcile is done (immediately when none is running)
+  function whenReconciled(): Promise<void> {
+    return reconcilePromise ?? Promise.resolve()
+  }
+
+  function withTag(fn: (id: string) => void) {
+    if (tagId.value) {
+      fn(tagId.value)
+      return
+    }
+    // The first reconcile pushes every local keep, so only removals need to wait for it
+    void reconcile().then(() => {
+      if (tagId.value) fn(tagId.value)
+    })
+  }
+
+  async function deleteRemoteTag() {
+    try {
+      const id = tagId.value ?? (await findTag())?.id
+      tagId.value = null
+      if (id) {
+        await apiRequest(`/tags/${id}`, { method: 'DELETE' })
+      }
+      await reconcile()
+    } catch (e) {
+      console.error('Failed to remove review sync tag:', e)
+      uiStore.toast('Could not clear the review tag on the server', 'error')
+    }
+  }
+
+  reviewedStore.$onAction(({ name, args, after }) => {
+    if (!isEnabled.value) return
+
+    if (name === 'markReviewed') {
+      const [assetId, decision] = args as [string, ReviewDecision]
+      const wasTagged = staysInLibrary(reviewedStore.getDecision(assetId))
+      after(() => {
+        if (staysInLibrary(decision) && !wasTagged) {
+          if (tagId.value) tagAssets('tagAdd', tagId.value, [assetId])
+        } else if (!staysInLibrary(decision) && wasTagged) {
+          withTag((id) => tagAssets('tagRemove', id, [assetId]))
+        }
+      })
+    } else if (name === 'unmarkReviewed') {
+      const [assetId] = args as [string]
+      if (!staysInLibrary(reviewedStore.getDecision(assetId))) return
+      after(() => {
+        if (tagId.value && outboxStore.cancelPending('tagAdd', assetId, tagId.value)) return
+        withTag((id) => tagAssets('tagRemove', id, [assetId]))
+      })
+    } else if (name === 'resetReviewed') {
+      after(() => {
+        void deleteRemoteTag()
+      })
+    }
+  })
+
+  watch([namespace, isEnabled], () => {
+    tagId.value = null
+    lastError.value = null
+    void reconcile()
+  }, { immediate: true })
+
+  return {
+    isReconciling,
+    lastSyncedAt,
+    lastError,
+    reconcile,
+    whenReconciled,
+  }
+})
@@ -1,13 +1,38 @@
 import { defineStore } from 'pinia'
 import { computed, ref, watch } from 'vue'
 import { useAuthStore } from '@/stores/auth'
+import { isIndexedDbAvailable, REVIEWED_STORE, requestToPromise, runTransaction } from '@/utils/idb'
 
-type ReviewDecision = 'keep' | 'delete'
+export type ReviewDecision = 'keep' | 'delete' | 'archive'
 
+export interface ReviewedEntry {
+  id: string
+  decision: ReviewDecision
+  reviewedAt: number | null
+  fileName: string | null
+}
+
+interface ReviewDetail {
+  reviewedAt: number
+  fileName?: string
+}
+
+// v1 format: the whole cache as one localStorage entry. Still used as fallback
+// when IndexedDB is unavailable, and migrated into IndexedDB otherwise.
 interface ReviewedPayload {
   v: 1
   kept: string[]
   deleted: string[]
+  archived?: string[]
+}
+
+// v2 format: one IndexedDB record per asset, so a swipe only writes one row
+interface ReviewedRecord {
+  namespace: string
+  id: string
+  decision: ReviewDecision
+  reviewedAt: number
+  fileName?: string
 }
 
 const STORAGE_PREFIX = 'immich-swipe-reviewed'
@@ -17,7 +42,19 @@ export const useReviewedStore = defineStore('reviewed', () => {
   const authStore = useAuthStore()
   const kept = ref<Set<string>>(new Set())
   const deleted = ref<Set<string>>(new Set())
+  const archived = ref<Set<string>>(new Set())
   const initialized = ref(false)
+  const useIndexedDb = ref(isIndexedDbAvailable())
+  // When and under which name an asset was reviewed; the localStorage fallback only keeps this per session
+  const details = new Map<string, ReviewDetail>()
+
+  let readyPromise: Promise<void> = Promise.resolve()
+  // Writes are collected per tick and flushed in one transaction (null = remove)
+  const pendingWrites = new Map<string, { namespace: string; id: string; record: ReviewedRecord | null }>()
+  let flushScheduled = false
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const count = computed(() => kept.value.size + deleted.value.size + archived.value.size)
 
   const storageKey = computed(() => {
     const server = authStore.serverUrl || 'unknown-server'
@@ -25,67 +62,303 @@ export const useReviewedStore = defineStore('reviewed', () => {
     return `${STORAGE_PREFIX}:${server}:${user}`
   })
 
-  function loadFromStorage() {
-    initialized.value = false
-    kept.value = new Set()
-    deleted.value = new Set()
-
-    const raw = localStorage.getItem(storageKey.value)
-    if (!raw) {
-      initialized.value = true
-      return
-    }
+  function readLegacyPayload(key: string): { kept: string[]; deleted: string[]; archived: string[] } | null {
+    const raw = localStorage.getItem(key)
+    if (!raw) return null
 
     try {
       const parsed = JSON.parse(raw) as Partial<ReviewedPayload>
       const keptIds = Array.isArray(parsed.kept) ? parsed.kept : []
       const deletedIds = Array.isArray(parsed.deleted) ? parsed.deleted : []
-      kept.value = new Set(keptIds.filter((id) => typeof id === 'string'))
-      deleted.value = new Set(deletedIds.filter((id) => typeof id === 'string'))
+      const archivedIds = Array.isArray(parsed.archived) ? parsed.archived : []
+      return {
+        kept: keptIds.filter((id) => typeof id === 'string'),
+        deleted: deletedIds.filter((id) => typeof id === 'string'),
+        archived: archivedIds.filter((id) => typeof id === 'string'),
+      }
     } catch (e) {
       console.error('Failed to parse reviewed cache from localStorage', e)
-    } finally {
+      return null
+    }
+  }
+
+  function loadFromLocalStorage() {
+    const legacy = readLegacyPayload(storageKey.value)
+    if (legacy) {
+      kept.value = new Set(legacy.kept)
+      deleted.value = new Set(legacy.deleted)
+      archived.value = new Set(legacy.archived)
+    }
+  }
+
+  function applyDecision(id: string, decision: ReviewDecision | null) {
+    kept.value.delete(id)
+    deleted.value.delete(id)
+    archived.value.delete(id)
+    if (decision === 'keep') {
+      kept.value.add(id)
+    } else if (decision === 'delete') {
+      deleted.value.add(id)
+    } else if (decision === 'archive') {
+      archived.value.add(id)
+    }
+  }
+
+  function setDetail(id: string, detail: ReviewDetail | null) {
+    if (detail) {
+      details.set(id, { reviewedAt: detail.reviewedAt, fileName: detail.fileName })
+    } else {
+      details.delete(id)
+    }
+  }
+
+  // Reads the namespace from IndexedDB and moves a leftover v1 payload over,
+  // dropping the localStorage copy afterwards to free up its quota.
+  async function loadFromIndexedDb(key: string) {
+    const records = await runTransaction(REVIEWED_STORE, 'readonly', (tx) => {
+      const index = tx.objectStore(REVIEWED_STORE).index('namespace')
+      return requestToPromise(index.getAll(key) as IDBRequest<ReviewedRecord[]>)
+    })
+
+    const legacy = readLegacyPayload(key)
+    if (legacy) {
+      const known = new Set(records.map((record) => record.id))
+      const now = Date.now()
+      const migrated: ReviewedRecord[] = [
+        ...legacy.kept.map((id) => ({ namespace: key, id, decision: 'keep' as const, reviewedAt: now })),
+        ...legacy.deleted.map((id) => ({ namespace: key, id, decision: 'delete' as const, reviewedAt: now })),
+        ...legacy.archived.map((id) => ({ namespace: key, id, decision: 'archive' as const, reviewedAt: now })),
+      ].filter((record) => !known.has(record.id))
+
+      await runTransaction(REVIEWED_STORE, 'readwrite', (tx) => {
+        const store = tx.objectStore(REVIEWED_STORE)
+        migrated.forEach((record) => store.put(record))
+      })
+      localStorage.removeItem(key)
+      records.push(...migrated)
+    }
+
+    if (key !== storageKey.value) return
+
+    kept.value = new Set(records.filter((record) => record.decision === 'keep').map((record) => record.id))
+    deleted.value = new Set(records.filter((record) => record.decision === 'delete').map((record) => record.id))
+    archived.value = new Set(records.filter((record) => record.decision === 'archive').map((record) => record.id))
+    records.forEach((record) => {
+      details.set(record.id, { reviewedAt: record.reviewedAt, fileName: record.fileName })
+    })
+
+    // Decisions made while loading win over what was stored
+    pendingWrites.forEach((write) => {
+      if (write.namespace === key) {
+        applyDecision(write.id, write.record?.decision ?? null)
+        setDetail(write.id, write.record)
+      }
+    })
+  }
+
+  function loadFromStorage() {
+    initialized.value = false
+    kept.value = new Set()
+    deleted.value = new Set()
+    archived.value = new Set()
+    details.clear()
+
+    if (!useIndexedDb.value) {
+      loadFromLocalStorage()
       initialized.value = true
+      readyPromise = Promise.resolve()
+      return
     }
+
+    const key = storageKey.value
+    readyPromise = loadFromIndexedDb(key)
+      .catch((e) => {
+        console.error('Failed to load reviewed cache from IndexedDB, falling back to localStorage', e)
+        useIndexedDb.value = false
+        loadFromLocalStorage()
+        pendingWrites.forEach((write) => {
+          applyDecision(write.id, write.record?.decision ?? null)
+          setDetail(write.id, write.record)
+        })
+        pendingWrites.clear()
+        initialized.value = true
+        persistToLocalStorage()
+      })
+      .finally(() => {
+        if (key === storageKey.value) {
+          initialized.value = true
+        }
+      })
   }
 
-  function persist() {
+  function persistToLocalStorage() {
     if (!initialized.value) return
     const payload: ReviewedPayload = {
       v: STORAGE_VERSION,
       kept: Array.from(kept.value),
       deleted: Array.from(deleted.value),
+      archived: Array.from(archived.value),
     }
     localStorage.setItem(storageKey.value, JSON.stringify(payload))
   }
 
+  function flushWrites(): Promise<void> {
+    flushScheduled = false
+    if (pendingWrites.size === 0) return writeChain
+
+    const writes = Array.from(pendingWrites.values())
+    pendingWrites.clear()
+    writeChain = writeChain
+      .then(() => readyPromise)
+      .then(() => runTransaction(REVIEWED_STORE, 'readwrite', (tx) => {
+        const store = tx.objectStore(REVIEWED_STORE)
+        writes.forEach((write) => {
+          if (write.record) {
+            store.put(write.record)
+          } else {
+            store.delete([write.namespace, write.id])
+          }
+        })
+      }))
+      .catch((e) => {
+        console.error('Failed to write reviewed cache to IndexedDB', e)
+      })
+    return writeChain
+  }
+
+  function queueRecordWrite(id: string, decision: ReviewDecision | null, detail?: ReviewDetail) {
+    const namespace = storageKey.value
+    pendingWrites.set(`${namespace}\n${id}`, {
+      namespace,
+      id,
+      record: decision
+        ? { namespace, id, decision, reviewedAt: detail?.reviewedAt ?? Date.now(), fileName: detail?.fileName }
+        : null,
+    })
+    if (!flushScheduled) {
+      flushScheduled = true
+      queueMicrotask(() => {
+        void flushWrites()
+      })
+    }
+  }
+
+  function persist(id: string, decision: ReviewDecision | null, detail?: ReviewDetail) {
+    if (!useIndexedDb.value) {
+      persistToLocalStorage()
+      return
+    }
+    queueRecordWrite(id, decision, detail)
+  }
+
+  function whenReady(): Promise<void> {
+    return readyPromise
+  }
+
   function isReviewed(id: string): boolean {
-    return kept.value.has(id) || deleted.value.has(id)
+    return kept.value.has(id) || deleted.value.has(id) || archived.value.has(id)
   }
 
   function getDecision(id: string): ReviewDecision | null {
     if (kept.value.has(id)) return 'keep'
     if (deleted.value.has(id)) return 'delete'
+    if (archived.value.has(id)) return 'archive'
     return null
   }
 
-  function markReviewed(id: string, decision: ReviewDecision) {
+  function markReviewed(id: string, decision: ReviewDecision, fileName?: string) {
     if (!id) return
-    if (decision === 'keep') {
-      kept.value.add(id)
-      deleted.value.delete(id)
-    } else {
-      deleted.value.add(id)
-      kept.value.delete(id)
-    }
-    persist()
+    const detail: ReviewDetail = { reviewedAt: Date.now(), fileName }
+    applyDecision(id, decision)
+    setDetail(id, detail)
+    persist(id, decision, detail)
   }
 
   function unmarkReviewed(id: string) {
     if (!id) return
-    kept.value.delete(id)
-    deleted.value.delete(id)
-    persist()
+    applyDecision(id, null)
+    setDetail(id, null)
+    persist(id, null)
+  }
+
+  // Everything that stays in the library: kept and archived assets
+  function keptIds(): string[] {
+    return [...kept.value, ...archived.value]
+  }
+
+  // Adopt "keep" decisions made elsewhere; local decisions for the same ids win
+  function mergeKept(ids: string[]) {
+    const added = ids.filter((id) => id && !isReviewed(id))
+    if (added.length === 0) return
+    const now = Date.now()
+    added.forEach((id) => {
+      applyDecision(id, 'keep')
+      setDetail(id, { reviewedAt: now })
+    })
+    if (!useIndexedDb.value) {
+      persistToLocalStorage()
+      return
+    }
+    added.forEach((id) => queueRecordWrite(id, 'keep'))
+  }
+
+  function entries(): ReviewedEntry[] {
+    const toEntry = (id: string, decision: ReviewDecision): ReviewedEntry => {
+      const detail = details.get(id)
+      return { id, decision, reviewedAt: detail?.reviewedAt ?? null, fileName: detail?.fileName ?? null }
+    }
+    return [
+      ...Array.from(kept.value, (id) => toEntry(id, 'keep')),
+      ...Array.from(deleted.value, (id) => toEntry(id, 'delete')),
+      ...Array.from(archived.value, (id) => toEntry(id, 'archive')),
+    ]
+  }
+
+  // Merge keeps local decisions and only adds unknown ids; replace swaps the whole cache.
+  // Returns the entries that were taken over.
+  function importEntries(list: ReviewedEntry[], mode: 'merge' | 'replace'): ReviewedEntry[] {
+    const incoming = mode === 'merge' ? list.filter((entry) => !isReviewed(entry.id)) : list
+
+    if (mode === 'replace') {
+      const imported = new Set(list.map((entry) => entry.id))
+      const dropped = [...kept.value, ...deleted.value, ...archived.value].filter((id) => !imported.has(id))
+      dropped.forEach((id) => {
+        applyDecision(id, null)
+        setDetail(id, null)
+        if (useIndexedDb.value) queueRecordWrite(id, null)
+      })
+    }
+
+    incoming.forEach((entry) => {
+      const detail: ReviewDetail = {
+        reviewedAt: entry.reviewedAt ?? Date.now(),
+        fileName: entry.fileName ?? undefined,
+      }
+      applyDecision(entry.id, entry.decision)
+      setDetail(entry.id, detail)
+      if (useIndexedDb.value) queueRecordWrite(entry.id, entry.decision, detail)
+    })
+
+    if (!useIndexedDb.value) {
+      persistToLocalStorage()
+    }
+    return incoming
+  }
+
+  async function clearIndexedDbForUser(user: string) {
+    const prefix = `${STORAGE_PREFIX}:`
+    await runTransaction(REVIEWED_STORE, 'readwrite', (tx) => {
+      const request = tx.objectStore(REVIEWED_STORE).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return
+        const { namespace } = cursor.value as ReviewedRecord
+        if (namespace.startsWith(prefix) && namespace.endsWith(`:${user}`)) {
+          cursor.delete()
+        }
+        cursor.continue()
+      }
+    })
   }
 
   function resetReviewed() {
@@ -106,16 +379,39 @@ export const useReviewedStore = defineStore('reviewed', () => {
     } else {
       keysToRemove.forEach((key) => localStorage.removeItem(key))
     }
-    loadFromStorage()
+
+    if (!useIndexedDb.value) {
+      loadFromStorage()
+      return
+    }
+
+    pendingWrites.clear()
+    kept.value = new Set()
+    deleted.value = new Set()
+    archived.value = new Set()
+    details.clear()
+    writeChain = writeChain
+      .then(() => clearIndexedDbForUser(user))
+      .catch((e) => {
+        console.error('Failed to clear reviewed cache in IndexedDB', e)
+      })
+    readyPromise = writeChain
   }
 
   watch(storageKey, () => loadFromStorage(), { immediate: true })
 
   return {
+    count,
     isReviewed,
     getDecision,
     markReviewed,
     unmarkReviewed,
+    keptIds,
+    mergeKept,
+    entries,
+    importEntries,
     resetReviewed,
+    whenReady,
+    flushWrites,
   }
 })
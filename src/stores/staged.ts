@@ -0,0 +1,99 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from '@/stores/auth'
+import type { ImmichAsset } from '@/types/immich'
+
+export interface StagedAsset {
+  id: string
+  originalFileName: string
+  type: ImmichAsset['type']
+  stagedAt: number
+  fileSizeInByte?: number
+}
+
+interface StagedPayload {
+  v: 1
+  items: StagedAsset[]
+}
+
+const STORAGE_PREFIX = 'immich-swipe-staged'
+const STORAGE_VERSION = 1
+
+export const useStagedStore = defineStore('staged', () => {
+  const authStore = useAuthStore()
+  const items = ref<StagedAsset[]>([])
+  const initialized = ref(false)
+
+  const storageKey = computed(() => {
+    const server = authStore.serverUrl || 'unknown-server'
+    const user = authStore.currentUserName || 'default-user'
+    return `${STORAGE_PREFIX}:${server}:${user}`
+  })
+
+  const count = computed(() => items.value.length)
+
+  function loadFromStorage() {
+    initialized.value = false
+    items.value = []
+
+    const raw = localStorage.getItem(storageKey.value)
+    if (!raw) {
+      initialized.value = true
+      return
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as Partial<StagedPayload>
+      const stored = Array.isArray(parsed.items) ? parsed.items : []
+      items.value = stored.filter((item) => item && typeof item.id === 'string')
+    } catch (e) {
+      console.error('Failed to parse staged deletions from localStorage', e)
+    } finally {
+      initialized.value = true
+    }
+  }
+
+  function persist() {
+    if (!initialized.value) return
+    const payload: StagedPayload = {
+      v: STORAGE_VERSION,
+      items: items.value,
+    }
+    localStorage.setItem(storageKey.value, JSON.stringify(payload))
+  }
+
+  function isStaged(id: string): boolean {
+    return items.value.some((item) => item.id === id)
+  }
+
+  function stage(asset: ImmichAsset) {
+    if (!asset.id || isStaged(asset.id)) return
+    items.value = [
+      ...items.value,
+      {
+        id: asset.id,
+        originalFileName: asset.originalFileName,
+        type: asset.type,
+        stagedAt: Date.now(),
+        fileSizeInByte: asset.exifInfo?.fileSizeInByte ?? undefined,
+      },
+    ]
+    persist()
+  }
+
+  function unstage(ids: string | string[]) {
+    const toRemove = new Set(Array.isArray(ids) ? ids : [ids])
+    items.value = items.value.filter((item) => !toRemove.has(item.id))
+    persist()
+  }
+
+  watch(storageKey, () => loadFromStorage(), { immediate: true })
+
+  return {
+    items,
+    count,
+    isStaged,
+    stage,
+    unstage,
+  }
+})
@@ -2,6 +2,13 @@ import { defineStore } from 'pinia'
 import { computed, ref, watch } from 'vue'
 import { useAuthStore } from '@/stores/auth'
 
+export interface StoredStats {
+  keptCount: number
+  deletedCount: number
+  archivedCount: number
+  reclaimedBytes: number
+}
+
 export const useUiStore = defineStore('ui', () => {
   const authStore = useAuthStore()
   // Dark mode state - persisted to localStorage
@@ -39,6 +46,13 @@ export const useUiStore = defineStore('ui', () => {
     skipVideos.value = !skipVideos.value
   }
 
+  // Metadata drawer on the card, stays open from one asset to the next
+  const isInfoOpen = ref<boolean>(false)
+
+  function toggleInfo() {
+    isInfoOpen.value = !isInfoOpen.value
+  }
+
   // Loading state
   const isLoading = ref<boolean>(false)
   const loadingMessage = ref<string>('')
@@ -66,6 +80,10 @@ export const useUiStore = defineStore('ui', () => {
   // Stats (persisted per user/server)
   const keptCount = ref<number>(0)
   const deletedCount = ref<number>(0)
+  const archivedCount = ref<number>(0)
+  // Size of everything sent to the trash, all time and since the app was opened
+  const reclaimedBytes = ref<number>(0)
+  const sessionReclaimedBytes = ref<number>(0)
   const statsInitialized = ref(false)
   const statsStorageKey = computed(() => {
     const server = authStore.serverUrl || 'unknown-server'
@@ -73,27 +91,30 @@ export const useUiStore = defineStore('ui', () => {
     return `immich-swipe-stats:${server}:${user}`
   })
 
+  function toCount(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0
+  }
+
   function loadStats() {
     statsInitialized.value = false
     const raw = localStorage.getItem(statsStorageKey.value)
     if (!raw) {
-      keptCount.value = 0
-      deletedCount.value = 0
+      setStats({ keptCount: 0, deletedCount: 0, archivedCount: 0, reclaimedBytes: 0 })
       statsInitialized.value = true
       return
     }
 
     try {
-      const parsed = JSON.parse(raw) as { keptCount?: number; deletedCount?: number }
-      const kept = typeof parsed.keptCount === 'number' && Number.isFinite(parsed.keptCount) ? parsed.keptCount : 0
-      const deleted =
-        typeof parsed.deletedCount === 'number' && Number.isFinite(parsed.deletedCount) ? parsed.deletedCount : 0
-      keptCount.value = kept
-      deletedCount.value = deleted
+      const parsed = JSON.parse(raw) as Partial<StoredStats>
+      setStats({
+        keptCount: toCount(parsed.keptCount),
+        deletedCount: toCount(parsed.deletedCount),
+        archivedCount: toCount(parsed.archivedCount),
+        reclaimedBytes: toCount(parsed.reclaimedBytes),
+      })
     } catch (e) {
       console.error('Failed to parse stats from localStorage', e)
-      keptCount.value = 0
-      deletedCount.value = 0
+      setStats({ keptCount: 0, deletedCount: 0, archivedCount: 0, reclaimedBytes: 0 })
     } finally {
       statsInitialized.value = true
     }
@@ -101,14 +122,17 @@ export const useUiStore = defineStore('ui', () => {
 
   function persistStats() {
     if (!statsInitialized.value) return
-    localStorage.setItem(
-      statsStorageKey.value,
-      JSON.stringify({ keptCount: keptCount.value, deletedCount: deletedCount.value })
-    )
+    const payload: StoredStats = {
+      keptCount: keptCount.value,
+      deletedCount: deletedCount.value,
+      archivedCount: archivedCount.value,
+      reclaimedBytes: reclaimedBytes.value,
+    }
+    localStorage.setItem(statsStorageKey.value, JSON.stringify(payload))
   }
 
   watch(statsStorageKey, () => loadStats(), { immediate: true })
-  watch([keptCount, deletedCount, statsStorageKey], () => persistStats())
+  watch([keptCount, deletedCount, archivedCount, reclaimedBytes, statsStorageKey], () => persistStats())
 
   function incrementKept() {
     keptCount.value++
@@ -130,9 +154,42 @@ export const useUiStore = defineStore('ui', () => {
     }
   }
 
+  function incrementArchived() {
+    archivedCount.value++
+  }
+
+  function decrementArchived() {
+    if (archivedCount.value > 0) {
+      archivedCount.value--
+    }
+  }
+
+  function addReclaimed(bytes: number) {
+    if (!Number.isFinite(bytes) || bytes <= 0) return
+    reclaimedBytes.value += bytes
+    sessionReclaimedBytes.value += bytes
+  }
+
+  function subtractReclaimed(bytes: number) {
+    if (!Number.isFinite(bytes) || bytes <= 0) return
+    reclaimedBytes.value = Math.max(0, reclaimedBytes.value - bytes)
+    sessionReclaimedBytes.value = Math.max(0, sessionReclaimedBytes.value - bytes)
+  }
+
   function resetStats() {
     keptCount.value = 0
     deletedCount.value = 0
+    archivedCount.value = 0
+    reclaimedBytes.value = 0
+    sessionReclaimedBytes.value = 0
+  }
+
+  // Missing fields keep their current value
+  function setStats(stats: Partial<StoredStats>) {
+    if (stats.keptCount !== undefined) keptCount.value = Math.floor(toCount(stats.keptCount))
+    if (stats.deletedCount !== undefined) deletedCount.value = Math.floor(toCount(stats.deletedCount))
+    if (stats.archivedCount !== undefined) archivedCount.value = Math.floor(toCount(stats.archivedCount))
+    if (stats.reclaimedBytes !== undefined) reclaimedBytes.value = Math.floor(toCount(stats.reclaimedBytes))
   }
 
   return {
@@ -151,8 +208,18 @@ export const useUiStore = defineStore('ui', () => {
     decrementKept,
     incrementDeleted,
     decrementDeleted,
+    archivedCount,
+    incrementArchived,
+    decrementArchived,
+    reclaimedBytes,
+    sessionReclaimedBytes,
+    addReclaimed,
+    subtractReclaimed,
     resetStats,
+    setStats,
     skipVideos,
     toggleSkipVideos,
+    isInfoOpen,
+    toggleInfo,
   }
 })
@@ -18,16 +18,34 @@ export interface ImmichAsset {
   isOffline: boolean
   hasMetadata: boolean
   duration?: string
-  exifInfo?: {
-    city?: string
-    country?: string
-    dateTimeOriginal?: string
-    description?: string
-    exifImageHeight?: number
-    exifImageWidth?: number
-    make?: string
-    model?: string
-  }
+  exifInfo?: ImmichExifInfo
+  // Only on full asset responses
+  tags?: ImmichTag[]
+}
+
+// Immich returns null for anything the file doesn't carry
+export interface ImmichExifInfo {
+  city?: string | null
+  state?: string | null
+  country?: string | null
+  dateTimeOriginal?: string | null
+  timeZone?: string | null
+  description?: string | null
+  exifImageHeight?: number | null
+  exifImageWidth?: number | null
+  fileSizeInByte?: number | null
+  make?: string | null
+  model?: string | null
+  lensModel?: string | null
+  // Shutter speed as written by the camera, e.g. "1/250"
+  exposureTime?: string | null
+  fNumber?: number | null
+  iso?: number | null
+  focalLength?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  // Stars, 0–5 (newer servers use -1 for rejected)
+  rating?: number | null
 }
 
 export interface ImmichConfig {
@@ -67,13 +85,81 @@ export interface AddAssetsToAlbumRequest {
   ids: string[]
 }
 
-export interface MetadataSearchRequest {
+export interface ImmichDuplicateGroup {
+  duplicateId: string
+  assets: ImmichAsset[]
+}
+
+// Several assets reviewed together on one card; the lead asset is the first one
+export interface ReviewGroup {
+  id: string
+  kind: 'duplicates' | 'burst'
+  assets: ImmichAsset[]
+}
+
+export interface ImmichPerson {
+  id: string
+  name: string
+  isHidden?: boolean
+}
+
+export interface PeopleResponse {
+  people: ImmichPerson[]
+  total?: number
+}
+
+// Filters shared by metadata and random search
+export interface SearchFilters {
+  takenAfter?: string
+  takenBefore?: string
+  albumIds?: string[]
+  personIds?: string[]
+  city?: string
+  country?: string
+  make?: string
+  model?: string
+  rating?: number
+}
+
+// Scope a review session is limited to (empty = whole library).
+// Search only matches an exact rating, so the minimum is applied to the results.
+export interface ReviewScope extends SearchFilters {
+  minRating?: number
+}
+
+export interface MetadataSearchRequest extends SearchFilters {
   take?: number
   skip?: number
   page?: number
   size?: number
   order?: 'asc' | 'desc'
   assetType?: ('IMAGE' | 'VIDEO')[]
+  tagIds?: string[]
+  withExif?: boolean
+  // Trashed assets are only returned with withDeleted, trashedAfter narrows it down to them
+  withDeleted?: boolean
+  trashedAfter?: string
+}
+
+export interface RandomSearchRequest extends SearchFilters {
+  size?: number
+  withExif?: boolean
+}
+
+// Results come ordered by relevance to the query, not by date
+export interface SmartSearchRequest extends SearchFilters {
+  query: string
+  page?: number
+  size?: number
+  withExif?: boolean
+}
+
+export interface SearchStatisticsRequest extends SearchFilters {
+  type?: 'IMAGE' | 'VIDEO'
+}
+
+export interface SearchStatisticsResponse {
+  total: number
 }
 
 export interface MetadataSearchResponse {
@@ -85,5 +171,36 @@ export interface MetadataSearchResponse {
     total?: number
     count?: number
     items: ImmichAsset[]
+    nextPage?: string | null
   }
 }
+
+// `value` is the full path of nested tags (`Trips/Japan`), `name` its last part
+export interface ImmichTag {
+  id: string
+  name: string
+  value: string
+  color?: string | null
+  parentId?: string | null
+}
+
+export interface AssetStatistics {
+  images: number
+  videos: number
+  total: number
+}
+
+export interface ImmichUser {
+  id: string
+  name: string
+  email: string
+  quotaSizeInBytes?: number | null
+  quotaUsageInBytes?: number | null
+}
+
+export interface ServerStorage {
+  diskSizeRaw: number
+  diskUseRaw: number
+  diskAvailableRaw: number
+  diskUsagePercentage: number
+}
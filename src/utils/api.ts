@@ -0,0 +1,57 @@
+import { useAuthStore } from '@/stores/auth'
+
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+// Generic Immich API request helper
+export async function apiRequest<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const authStore = useAuthStore()
+  if (!authStore.immichBaseUrl) {
+    throw new Error('Immich server URL is not configured')
+  }
+
+  const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
+  const url = `${authStore.immichBaseUrl}${authStore.proxyBaseUrl}${normalizedEndpoint}`
+  const headers: HeadersInit = {
+    'x-api-key': authStore.apiKey,
+    'Accept': 'application/json',
+    ...options.headers,
+  }
+
+  // Add Content-Type for non-GET requests with body
+  if (options.body && typeof options.body === 'string') {
+    (headers as Record<string, string>)['Content-Type'] = 'application/json'
+  }
+
+  const response = await fetch(url, {
+    ...options,
+    headers,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let errorMessage: string
+    try {
+      const errorJson = JSON.parse(errorText)
+      errorMessage = errorJson.message || errorJson.error || `API error: ${response.status}`
+    } catch {
+      errorMessage = `API error: ${response.status} - ${errorText}`
+    }
+    throw new ApiError(errorMessage, response.status)
+  }
+
+  // Handle empty
+  const text = await response.text()
+  if (!text) return {} as T
+  return JSON.parse(text)
+}
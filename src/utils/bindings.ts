@@ -0,0 +1,205 @@
+export type AlbumSlot = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+
+// Star rating, 0 clears it
+export type RatingValue = '0' | '1' | '2' | '3' | '4' | '5'
+
+export type BindingAction =
+  | 'keep'
+  | 'delete'
+  | 'favorite'
+  | 'archive'
+  | 'undo'
+  | 'skip'
+  | 'info'
+  | 'tags'
+  | 'accept'
+  | `album:${AlbumSlot}`
+  | `tag:${AlbumSlot}`
+  | `rate:${RatingValue}`
+
+export type GestureInput = 'swipe-left' | 'swipe-right' | 'swipe-up' | 'swipe-down' | 'long-press' | 'double-tap'
+
+// Input id -> action. Inputs are gestures or key combos like `key:Ctrl+Z`, so one input
+// can only ever trigger one action while an action may have several inputs.
+export type Bindings = Record<string, BindingAction>
+
+export const ALBUM_SLOTS: AlbumSlot[] = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']
+
+export const RATING_VALUES: RatingValue[] = ['0', '1', '2', '3', '4', '5']
+
+export const GESTURE_INPUTS: GestureInput[] = [
+  'swipe-left',
+  'swipe-right',
+  'swipe-up',
+  'swipe-down',
+  'long-press',
+  'double-tap',
+]
+
+export const BINDING_ACTIONS: BindingAction[] = [
+  'keep',
+  'delete',
+  'favorite',
+  'archive',
+  'undo',
+  'skip',
+  'info',
+  'tags',
+  'accept',
+  ...ALBUM_SLOTS.map((slot) => `album:${slot}` as const),
+  ...ALBUM_SLOTS.map((slot) => `tag:${slot}` as const),
+  ...RATING_VALUES.map((value) => `rate:${value}` as const),
+]
+
+// Always opens the bindings overlay, so it cannot be remapped
+export const HELP_KEY = 'key:?'
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta']
+
+export function createDefaultBindings(): Bindings {
+  const bindings: Bindings = {
+    'swipe-right': 'keep',
+    'swipe-left': 'delete',
+    'swipe-up': 'archive',
+    'swipe-down': 'skip',
+    'key:ArrowRight': 'keep',
+    'key:ArrowLeft': 'delete',
+    'key:ArrowUp': 'undo',
+    'key:Ctrl+Z': 'undo',
+    'key:Meta+Z': 'undo',
+    'key:F': 'favorite',
+    'key:A': 'archive',
+    'key:S': 'skip',
+    'key:I': 'info',
+    'key:T': 'tags',
+    'key:Enter': 'accept',
+  }
+  ALBUM_SLOTS.forEach((slot) => {
+    bindings[`key:${slot}`] = `album:${slot}`
+  })
+  // Modifier + digit, the plain digits belong to the album hotkeys.
+  // Tag slots start out unbound, there is no modifier left that types a digit everywhere.
+  RATING_VALUES.forEach((value) => {
+    bindings[`key:Alt+${value}`] = `rate:${value}`
+  })
+  return bindings
+}
+
+export function isBindingAction(value: unknown): value is BindingAction {
+  return typeof value === 'string' && (BINDING_ACTIONS as string[]).includes(value)
+}
+
+export function isGestureInput(value: string): value is GestureInput {
+  return (GESTURE_INPUTS as string[]).includes(value)
+}
+
+export function isBindingInput(value: string): boolean {
+  return isGestureInput(value) || (value.startsWith('key:') && value.length > 4 && value !== HELP_KEY)
+}
+
+// Drops unknown inputs and actions from a stored payload; null when nothing usable is left
+export function sanitizeBindings(value: unknown): Bindings | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null
+  const bindings: Bindings = {}
+  Object.entries(value).forEach(([input, action]) => {
+    if (isBindingInput(input) && isBindingAction(action)) {
+      bindings[input] = action
+    }
+  })
+  return Object.keys(bindings).length > 0 ? bindings : null
+}
+
+// `key:Ctrl+Shift+K` style id for a keydown, null for a lone modifier.
+// Shift is left out for non-letter keys, since it is already part of the key (`?`, `!`).
+// With Alt held digits come from the physical key, macOS turns Option+1 into `¡`.
+export function keyComboFromEvent(
+  e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'> & { code?: string }
+): string | null {
+  if (!e.key || MODIFIER_KEYS.includes(e.key)) return null
+  const digit = e.altKey ? /^(?:Digit|Numpad)(\d)$/.exec(e.code ?? '')?.[1] : undefined
+  const isLetter = /^[a-z]$/i.test(e.key)
+  const key = digit ?? (e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key)
+  const parts: string[] = []
+  if (e.ctrlKey) parts.push('Ctrl')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey && (isLetter || key.length > 1)) parts.push('Shift')
+  if (e.metaKey) parts.push('Meta')
+  parts.push(key)
+  return `key:${parts.join('+')}`
+}
+
+// The action already bound to an input, when it differs from the one being assigned
+export function findConflict(bindings: Bindings, input: string, action: BindingAction): BindingAction | null {
+  const existing = bindings[input]
+  return existing && existing !== action ? existing : null
+}
+
+export function inputsForAction(bindings: Bindings, action: BindingAction): string[] {
+  return Object.keys(bindings).filter((input) => bindings[input] === action)
+}
+
+const GESTURE_LABELS: Record<GestureInput, string> = {
+  'swipe-left': 'Swipe left',
+  'swipe-right': 'Swipe right',
+  'swipe-up': 'Swipe up',
+  'swipe-down': 'Swipe down',
+  'long-press': 'Long press',
+  'double-tap': 'Double tap',
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Meta: '⌘',
+  Escape: 'Esc',
+}
+
+export function inputLabel(input: string): string {
+  if (isGestureInput(input)) return GESTURE_LABELS[input]
+  return input
+    .slice(4)
+    .split('+')
+    .map((part) => KEY_LABELS[part] ?? part)
+    .join('+')
+}
+
+export function actionLabel(
+  action: BindingAction,
+  albumNames: Record<string, string> = {},
+  tagNames: Record<string, string> = {}
+): string {
+  if (action.startsWith('album:')) {
+    const slot = action.slice(6)
+    return albumNames[slot] ? `Album ${slot}: ${albumNames[slot]}` : `Album ${slot}`
+  }
+  if (action.startsWith('tag:')) {
+    const slot = action.slice(4)
+    return tagNames[slot] ? `Tag ${slot}: ${tagNames[slot]}` : `Tag ${slot}`
+  }
+  if (action.startsWith('rate:')) {
+    const stars = Number(action.slice(5))
+    return stars === 0 ? 'Clear rating' : `Rate ${stars} ★`
+  }
+  switch (action) {
+    case 'keep':
+      return 'Keep'
+    case 'delete':
+      return 'Delete'
+    case 'favorite':
+      return 'Favorite'
+    case 'archive':
+      return 'Archive'
+    case 'undo':
+      return 'Undo'
+    case 'info':
+      return 'Photo details'
+    case 'tags':
+      return 'Tag picker'
+    case 'accept':
+      return 'Accept rule suggestion'
+    default:
+      return 'Skip'
+  }
+}
@@ -0,0 +1,102 @@
+import { thumbHashToApproximateAspectRatio, thumbHashToRGBA } from 'thumbhash'
+import type { ImmichAsset } from '@/types/immich'
+
+// Consecutive shots further apart than this never form a burst
+export const BURST_MAX_GAP_MS = 3000
+// Mean per-channel difference (0–1) below which two thumbhashes count as similar
+export const BURST_SIMILARITY_THRESHOLD = 0.08
+export const BURST_MAX_SIZE = 20
+
+const SAMPLE_SIZE = 16
+
+const decodedCache = new Map<string, Float32Array | null>()
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// Decode a thumbhash and resample it to a fixed RGB grid so any two can be compared
+function decodeThumbhash(thumbhash: string): Float32Array | null {
+  if (decodedCache.has(thumbhash)) {
+    return decodedCache.get(thumbhash) ?? null
+  }
+
+  let samples: Float32Array | null = null
+  try {
+    const { w, h, rgba } = thumbHashToRGBA(base64ToBytes(thumbhash))
+    samples = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE * 3)
+    for (let y = 0; y < SAMPLE_SIZE; y++) {
+      const sourceY = Math.min(h - 1, Math.floor(((y + 0.5) * h) / SAMPLE_SIZE))
+      for (let x = 0; x < SAMPLE_SIZE; x++) {
+        const sourceX = Math.min(w - 1, Math.floor(((x + 0.5) * w) / SAMPLE_SIZE))
+        const source = (sourceY * w + sourceX) * 4
+        const target = (y * SAMPLE_SIZE + x) * 3
+        samples[target] = rgba[source] / 255
+        samples[target + 1] = rgba[source + 1] / 255
+        samples[target + 2] = rgba[source + 2] / 255
+      }
+    }
+  } catch (e) {
+    console.error('Failed to decode thumbhash', e)
+  }
+
+  decodedCache.set(thumbhash, samples)
+  return samples
+}
+
+function aspectRatio(thumbhash: string): number | null {
+  try {
+    return thumbHashToApproximateAspectRatio(base64ToBytes(thumbhash))
+  } catch {
+    return null
+  }
+}
+
+// Mean absolute difference between two thumbhashes (0 = identical, 1 = opposite)
+export function thumbhashDistance(a: string, b: string): number | null {
+  const ratioA = aspectRatio(a)
+  const ratioB = aspectRatio(b)
+  if (ratioA === null || ratioB === null) return null
+  // Portrait next to landscape is never the same shot
+  if (Math.abs(Math.log(ratioA / ratioB)) > 0.2) return 1
+
+  const samplesA = decodeThumbhash(a)
+  const samplesB = decodeThumbhash(b)
+  if (!samplesA || !samplesB) return null
+
+  let total = 0
+  for (let i = 0; i < samplesA.length; i++) {
+    total += Math.abs(samplesA[i] - samplesB[i])
+  }
+  return total / samplesA.length
+}
+
+function takenAt(asset: ImmichAsset): number {
+  return new Date(asset.exifInfo?.dateTimeOriginal || asset.localDateTime || asset.fileCreatedAt).getTime()
+}
+
+export function isBurstNeighbour(previous: ImmichAsset, next: ImmichAsset): boolean {
+  if (previous.type !== 'IMAGE' || next.type !== 'IMAGE') return false
+  if (!previous.thumbhash || !next.thumbhash) return false
+
+  const gap = Math.abs(takenAt(next) - takenAt(previous))
+  if (!Number.isFinite(gap) || gap > BURST_MAX_GAP_MS) return false
+
+  const distance = thumbhashDistance(previous.thumbhash, next.thumbhash)
+  return distance !== null && distance <= BURST_SIMILARITY_THRESHOLD
+}
+
+// Take the assets following `first` in the queue that belong to its burst (mutates the queue)
+export function takeBurst(first: ImmichAsset, queue: ImmichAsset[]): ImmichAsset[] {
+  const burst = [first]
+  while (queue.length > 0 && burst.length < BURST_MAX_SIZE) {
+    if (!isBurstNeighbour(burst[burst.length - 1], queue[0])) break
+    burst.push(queue.shift() as ImmichAsset)
+  }
+  return burst
+}
@@ -0,0 +1,88 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// All object stores are created here so the schema version lives in one place.
+
+const DB_NAME = 'immich-swipe'
+// v1: outbox, v2: reviewed, v3: journal
+const DB_VERSION = 3
+
+export const OUTBOX_STORE = 'outbox'
+export const REVIEWED_STORE = 'reviewed'
+export const JOURNAL_STORE = 'journal'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isIndexedDbAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch {
+    return false
+  }
+}
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+    outbox.createIndex('namespace', 'namespace')
+  }
+  if (!db.objectStoreNames.contains(REVIEWED_STORE)) {
+    const reviewed = db.createObjectStore(REVIEWED_STORE, { keyPath: ['namespace', 'id'] })
+    reviewed.createIndex('namespace', 'namespace')
+  }
+  if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+    const journal = db.createObjectStore(JOURNAL_STORE, { keyPath: 'id' })
+    journal.createIndex('namespace', 'namespace')
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => upgrade(request.result)
+      request.onsuccess = () => {
+        const db = request.result
+        // Let a newer tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked'))
+    })
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run `fn` inside a transaction and resolve once the transaction has committed
+export async function runTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase()
+  const tx = db.transaction(storeNames, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+  const result = await fn(tx)
+  await done
+  return result
+}
@@ -0,0 +1,167 @@
+import type { JournalEntry } from '@/stores/journal'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Gaps longer than this count as a break, not as time spent on a decision
+export const SESSION_GAP_MS = 5 * 60 * 1000
+const PACE_WINDOW_DAYS = 14
+// Decisions the session ETA is paced on
+const SESSION_PACE_DECISIONS = 50
+
+export interface SessionProgress {
+  reviewed: number
+  total: number
+  percent: number
+  remaining: number
+  secondsLeft: number | null
+}
+
+export interface DayThroughput {
+  date: string
+  kept: number
+  deleted: number
+}
+
+export interface YearRatio {
+  year: string
+  kept: number
+  deleted: number
+}
+
+export interface CompletionEstimate {
+  reviewed: number
+  total: number
+  percent: number
+  remaining: number
+  perDay: number
+  daysLeft: number | null
+}
+
+function isKept(entry: JournalEntry): boolean {
+  return entry.action !== 'delete'
+}
+
+// Local calendar day as YYYY-MM-DD
+export function dayKey(time: number): string {
+  const date = new Date(time)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+export function dailyThroughput(entries: JournalEntry[], days: number, now: number = Date.now()): DayThroughput[] {
+  const result: DayThroughput[] = []
+  const byDay = new Map<string, DayThroughput>()
+  const today = startOfDay(now)
+  for (let i = days - 1; i >= 0; i--) {
+    // Step from noon so DST changes never skip or repeat a day
+    const date = dayKey(today - i * DAY_MS + DAY_MS / 2)
+    const day = { date, kept: 0, deleted: 0 }
+    result.push(day)
+    byDay.set(date, day)
+  }
+
+  entries.forEach((entry) => {
+    const day = byDay.get(dayKey(entry.at))
+    if (!day) return
+    if (isKept(entry)) day.kept++
+    else day.deleted++
+  })
+  return result
+}
+
+export function ratioByYearTaken(entries: JournalEntry[]): YearRatio[] {
+  const byYear = new Map<string, YearRatio>()
+  entries.forEach((entry) => {
+    const parsed = entry.takenAt ? new Date(entry.takenAt).getFullYear() : NaN
+    const year = Number.isNaN(parsed) ? 'Unknown' : String(parsed)
+    const ratio = byYear.get(year) ?? { year, kept: 0, deleted: 0 }
+    if (isKept(entry)) ratio.kept++
+    else ratio.deleted++
+    byYear.set(year, ratio)
+  })
+  return Array.from(byYear.values()).sort((a, b) => a.year.localeCompare(b.year))
+}
+
+// Consecutive days with at least one decision; the current streak survives until today is over
+export function decisionStreaks(entries: JournalEntry[], now: number = Date.now()): { current: number; longest: number } {
+  const days = Array.from(new Set(entries.map((entry) => startOfDay(entry.at)))).sort((a, b) => a - b)
+  let longest = 0
+  let run = 0
+  let previous: number | null = null
+  days.forEach((day) => {
+    run = previous !== null && Math.round((day - previous) / DAY_MS) === 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  })
+
+  const today = startOfDay(now)
+  const last = days[days.length - 1]
+  const current = last !== undefined && Math.round((today - last) / DAY_MS) <= 1 ? run : 0
+  return { current, longest }
+}
+
+// A grid bulk action journals its whole batch at one instant, so entries sharing a time count
+// as one step; their zero-length gaps would drag the pace down to nothing
+function decisionTimes(entries: JournalEntry[]): number[] {
+  return Array.from(new Set(entries.map((entry) => entry.at))).sort((a, b) => a - b)
+}
+
+function averageGapSeconds(times: number[]): number | null {
+  let total = 0
+  let count = 0
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1]
+    if (gap > SESSION_GAP_MS) continue
+    total += gap
+    count++
+  }
+  return count > 0 ? total / count / 1000 : null
+}
+
+export function averageSecondsPerDecision(entries: JournalEntry[]): number | null {
+  return averageGapSeconds(decisionTimes(entries))
+}
+
+// Pace is the average per active day over the last two weeks
+export function estimateCompletion(
+  reviewed: number,
+  total: number,
+  entries: JournalEntry[],
+  now: number = Date.now()
+): CompletionEstimate {
+  const since = startOfDay(now) - (PACE_WINDOW_DAYS - 1) * DAY_MS
+  const recent = entries.filter((entry) => entry.at >= since)
+  const activeDays = new Set(recent.map((entry) => dayKey(entry.at))).size
+  const perDay = activeDays > 0 ? recent.length / activeDays : 0
+  const remaining = Math.max(0, total - reviewed)
+
+  return {
+    reviewed,
+    total,
+    percent: total > 0 ? Math.min(100, (reviewed / total) * 100) : 0,
+    remaining,
+    perDay,
+    daysLeft: perDay > 0 ? Math.ceil(remaining / perDay) : null,
+  }
+}
+
+// Paced on the latest decisions only, so the ETA follows the current swipe speed
+export function estimateSessionProgress(reviewed: number, total: number, entries: JournalEntry[]): SessionProgress {
+  const done = Math.min(reviewed, total)
+  const remaining = total - done
+  const pace = averageGapSeconds(decisionTimes(entries).slice(-SESSION_PACE_DECISIONS))
+
+  return {
+    reviewed: done,
+    total,
+    percent: total > 0 ? (done / total) * 100 : 100,
+    remaining,
+    secondsLeft: pace !== null ? Math.round(remaining * pace) : null,
+  }
+}
@@ -0,0 +1,153 @@
+import type { ImmichAsset } from '@/types/immich'
+
+export type QualityIssue = 'blank' | 'blurry' | 'dark' | 'bright' | 'screenshot' | 'tiny'
+
+export interface PixelMetrics {
+  // Variance of the Laplacian over the luma channel, low means few edges
+  sharpness: number
+  // Mean luma, 0–255
+  brightness: number
+  // Standard deviation of the luma, low means a flat image
+  contrast: number
+  // Share of pixels crushed to black or blown to white
+  darkShare: number
+  brightShare: number
+}
+
+export interface QualityReport {
+  // 0 looks fine, 1 is almost certainly junk
+  score: number
+  issues: QualityIssue[]
+  metrics: PixelMetrics | null
+}
+
+// Longest side the thumbnails are scaled to before measuring; the thresholds are tuned for it
+export const SAMPLE_MAX_SIDE = 256
+export const BLUR_THRESHOLD = 60
+const BLANK_CONTRAST = 10
+const DARK_LEVEL = 40
+const BRIGHT_LEVEL = 215
+const CLIPPED_DARK = 16
+const CLIPPED_BRIGHT = 240
+const CLIPPED_SHARE = 0.5
+// Below this the photo is a thumbnail, a chat-app resave or a crop of one
+export const TINY_MAX_PIXELS = 640 * 480
+
+const ISSUE_WEIGHTS: Record<QualityIssue, number> = {
+  blank: 1,
+  screenshot: 0.8,
+  blurry: 0.7,
+  tiny: 0.6,
+  dark: 0.5,
+  bright: 0.5,
+}
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  blank: 'Nearly blank',
+  blurry: 'Blurry',
+  dark: 'Underexposed',
+  bright: 'Overexposed',
+  screenshot: 'Screenshot',
+  tiny: 'Tiny image',
+}
+
+function toLuma(rgba: ArrayLike<number>, pixels: number): Float32Array {
+  const luma = new Float32Array(pixels)
+  for (let i = 0; i < pixels; i++) {
+    const offset = i * 4
+    luma[i] = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2]
+  }
+  return luma
+}
+
+// 4-neighbour Laplacian, the border pixels are left out
+export function laplacianVariance(luma: Float32Array, width: number, height: number): number {
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const value = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i]
+      sum += value
+      sumSquares += value * value
+      count++
+    }
+  }
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSquares / count - mean * mean
+}
+
+export function analyzePixels(rgba: ArrayLike<number>, width: number, height: number): PixelMetrics {
+  const pixels = width * height
+  const luma = toLuma(rgba, pixels)
+  let sum = 0
+  let sumSquares = 0
+  let dark = 0
+  let bright = 0
+  for (let i = 0; i < pixels; i++) {
+    const value = luma[i]
+    sum += value
+    sumSquares += value * value
+    if (value <= CLIPPED_DARK) dark++
+    if (value >= CLIPPED_BRIGHT) bright++
+  }
+  const brightness = pixels > 0 ? sum / pixels : 0
+  const variance = pixels > 0 ? sumSquares / pixels - brightness * brightness : 0
+
+  return {
+    sharpness: laplacianVariance(luma, width, height),
+    brightness,
+    contrast: Math.sqrt(Math.max(0, variance)),
+    darkShare: pixels > 0 ? dark / pixels : 0,
+    brightShare: pixels > 0 ? bright / pixels : 0,
+  }
+}
+
+// What the file itself gives away, without looking at a single pixel
+export function metadataIssues(asset: ImmichAsset): QualityIssue[] {
+  const issues: QualityIssue[] = []
+  const exif = asset.exifInfo
+  const fromCamera = !!(exif?.make || exif?.model)
+  const isPng = asset.originalMimeType === 'image/png' || /\.png$/i.test(asset.originalFileName)
+  if (/screen ?shot|bildschirmfoto|capture d.écran/i.test(asset.originalFileName) || (isPng && !fromCamera)) {
+    issues.push('screenshot')
+  }
+
+  const width = exif?.exifImageWidth
+  const height = exif?.exifImageHeight
+  if (width && height && width * height < TINY_MAX_PIXELS) {
+    issues.push('tiny')
+  }
+  return issues
+}
+
+function pixelIssues(metrics: PixelMetrics): QualityIssue[] {
+  const issues: QualityIssue[] = []
+  // A flat image has no edges either, so it is reported as blank rather than blurry
+  if (metrics.contrast < BLANK_CONTRAST) {
+    issues.push('blank')
+    return issues
+  }
+  if (metrics.sharpness < BLUR_THRESHOLD) issues.push('blurry')
+  if (metrics.brightness < DARK_LEVEL || metrics.darkShare > CLIPPED_SHARE) issues.push('dark')
+  if (metrics.brightness > BRIGHT_LEVEL || metrics.brightShare > CLIPPED_SHARE) issues.push('bright')
+  return issues
+}
+
+function severity(issue: QualityIssue, metrics: PixelMetrics | null): number {
+  // Only just under the threshold counts half as much as no edges at all
+  if (issue === 'blurry' && metrics) {
+    return ISSUE_WEIGHTS.blurry * (0.5 + 0.5 * (1 - metrics.sharpness / BLUR_THRESHOLD))
+  }
+  return ISSUE_WEIGHTS[issue]
+}
+
+// The worst issue sets the score, every further one adds a little on top
+export function assessQuality(asset: ImmichAsset, metrics: PixelMetrics | null): QualityReport {
+  const issues = [...metadataIssues(asset), ...(metrics ? pixelIssues(metrics) : [])]
+  const severities = issues.map((issue) => severity(issue, metrics)).sort((a, b) => b - a)
+  const score = (severities[0] ?? 0) + severities.slice(1).reduce((sum, value) => sum + value * 0.1, 0)
+  return { score: Math.min(1, score), issues, metrics }
+}
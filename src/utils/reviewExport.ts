@@ -0,0 +1,199 @@
+import type { ReviewedEntry } from '@/stores/reviewed'
+import type { ChronologicalCursor, ChronologicalOrder, StoredPreferences } from '@/stores/preferences'
+import type { StoredStats } from '@/stores/ui'
+import type { ReviewScope } from '@/types/immich'
+import { sanitizeBindings } from '@/utils/bindings'
+import { sanitizeTriageRules } from '@/utils/rules'
+
+export const REVIEW_EXPORT_FORMAT = 'immich-swipe-review'
+export const REVIEW_EXPORT_VERSION = 1
+
+const REVIEW_ORDERS: StoredPreferences['reviewOrder'][] = [
+  'random',
+  'chronological',
+  'chronological-desc',
+  'quality',
+  'duplicates',
+]
+const CHRONOLOGICAL_ORDERS: ChronologicalOrder[] = ['chronological', 'chronological-desc']
+const SCOPE_TEXT_FIELDS = ['takenAfter', 'takenBefore', 'city', 'country', 'make', 'model'] as const
+const SCOPE_LIST_FIELDS = ['albumIds', 'personIds'] as const
+const SCOPE_NUMBER_FIELDS = ['rating', 'minRating'] as const
+
+export interface ReviewExport {
+  format: typeof REVIEW_EXPORT_FORMAT
+  version: typeof REVIEW_EXPORT_VERSION
+  exportedAt: string
+  server: string
+  user: string
+  stats: StoredStats
+  preferences: Partial<StoredPreferences>
+  reviewed: ReviewedEntry[]
+}
+
+export class ReviewExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReviewExportError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0
+}
+
+function parseEntry(value: unknown, index: number): ReviewedEntry {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new ReviewExportError(`Entry ${index + 1} has no asset id`)
+  }
+  if (value.decision !== 'keep' && value.decision !== 'delete' && value.decision !== 'archive') {
+    throw new ReviewExportError(`Entry ${index + 1} has an unknown decision`)
+  }
+  return {
+    id: value.id,
+    decision: value.decision,
+    reviewedAt: typeof value.reviewedAt === 'number' && Number.isFinite(value.reviewedAt) ? value.reviewedAt : null,
+    fileName: typeof value.fileName === 'string' ? value.fileName : null,
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function toStringRecord(value: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+}
+
+function parseScope(value: Record<string, unknown>): ReviewScope {
+  const scope: ReviewScope = {}
+  SCOPE_TEXT_FIELDS.forEach((key) => {
+    const field = value[key]
+    if (typeof field === 'string') scope[key] = field
+  })
+  SCOPE_LIST_FIELDS.forEach((key) => {
+    const field = value[key]
+    if (isStringList(field)) scope[key] = field
+  })
+  SCOPE_NUMBER_FIELDS.forEach((key) => {
+    const field = value[key]
+    if (typeof field === 'number' && Number.isFinite(field)) scope[key] = field
+  })
+  return scope
+}
+
+function parseCursors(value: Record<string, unknown>): Partial<Record<ChronologicalOrder, ChronologicalCursor>> {
+  const cursors: Partial<Record<ChronologicalOrder, ChronologicalCursor>> = {}
+  CHRONOLOGICAL_ORDERS.forEach((order) => {
+    const cursor = value[order]
+    if (isRecord(cursor) && typeof cursor.takenAt === 'string' && typeof cursor.scope === 'string') {
+      cursors[order] = { takenAt: cursor.takenAt, scope: cursor.scope }
+    }
+  })
+  return cursors
+}
+
+// Settings are optional, so a field of the wrong type or with an unknown value is dropped instead of failing the import
+function parsePreferences(value: unknown): Partial<StoredPreferences> {
+  if (!isRecord(value)) return {}
+  const preferences: Partial<StoredPreferences> = {}
+
+  if (REVIEW_ORDERS.includes(value.reviewOrder as StoredPreferences['reviewOrder'])) {
+    preferences.reviewOrder = value.reviewOrder as StoredPreferences['reviewOrder']
+  }
+  if (isRecord(value.albumHotkeys)) preferences.albumHotkeys = toStringRecord(value.albumHotkeys)
+  if (isRecord(value.tagHotkeys)) preferences.tagHotkeys = toStringRecord(value.tagHotkeys)
+  if (typeof value.lastUsedAlbumId === 'string' || value.lastUsedAlbumId === null) {
+    preferences.lastUsedAlbumId = value.lastUsedAlbumId
+  }
+  if (typeof value.stageDeletions === 'boolean') preferences.stageDeletions = value.stageDeletions
+  if (isRecord(value.reviewScope)) preferences.reviewScope = parseScope(value.reviewScope)
+  if (typeof value.syncReviewed === 'boolean') preferences.syncReviewed = value.syncReviewed
+
+  const bindings = sanitizeBindings(value.bindings)
+  if (bindings) preferences.bindings = bindings
+
+  if (isRecord(value.chronologicalCursors)) preferences.chronologicalCursors = parseCursors(value.chronologicalCursors)
+  if (typeof value.smartQuery === 'string' || value.smartQuery === null) preferences.smartQuery = value.smartQuery
+  if (Array.isArray(value.recentSmartQueries)) {
+    preferences.recentSmartQueries = value.recentSmartQueries.filter((query): query is string => typeof query === 'string')
+  }
+  if (Array.isArray(value.triageRules)) preferences.triageRules = sanitizeTriageRules(value.triageRules)
+
+  const album = value.curationAlbum
+  if (album === null) {
+    preferences.curationAlbum = null
+  } else if (isRecord(album) && typeof album.id === 'string' && typeof album.albumName === 'string') {
+    preferences.curationAlbum = { id: album.id, albumName: album.albumName }
+  }
+  return preferences
+}
+
+// Validate a JSON export against its schema version; throws ReviewExportError with a readable reason
+export function parseReviewExport(text: string): ReviewExport {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new ReviewExportError('The file is not valid JSON')
+  }
+
+  if (!isRecord(parsed) || parsed.format !== REVIEW_EXPORT_FORMAT) {
+    throw new ReviewExportError('The file is not an Immich Swipe export')
+  }
+  if (parsed.version !== REVIEW_EXPORT_VERSION) {
+    throw new ReviewExportError(`Unsupported export version: ${String(parsed.version)}`)
+  }
+  if (!Array.isArray(parsed.reviewed)) {
+    throw new ReviewExportError('The export has no reviewed list')
+  }
+
+  const stats = isRecord(parsed.stats) ? parsed.stats : {}
+  return {
+    format: REVIEW_EXPORT_FORMAT,
+    version: REVIEW_EXPORT_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    server: typeof parsed.server === 'string' ? parsed.server : '',
+    user: typeof parsed.user === 'string' ? parsed.user : '',
+    stats: {
+      keptCount: toCount(stats.keptCount),
+      deletedCount: toCount(stats.deletedCount),
+      archivedCount: toCount(stats.archivedCount),
+      reclaimedBytes: toCount(stats.reclaimedBytes),
+    },
+    preferences: parsePreferences(parsed.preferences),
+    reviewed: parsed.reviewed.map(parseEntry),
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function buildReviewCsv(entries: ReviewedEntry[]): string {
+  const lines = ['asset_id,file_name,decision,reviewed_at']
+  entries.forEach((entry) => {
+    lines.push([
+      csvField(entry.id),
+      csvField(entry.fileName ?? ''),
+      entry.decision,
+      entry.reviewedAt !== null ? new Date(entry.reviewedAt).toISOString() : '',
+    ].join(','))
+  })
+  return `${lines.join('\r\n')}\r\n`
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,192 @@
+import type { ImmichAsset } from '@/types/immich'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RuleSuggestion = 'keep' | 'delete' | 'archive' | 'favorite' | 'album'
+
+// Every condition that is set has to match; an empty rule matches nothing
+export interface RuleConditions {
+  // Case-insensitive, `*` stands for any run of characters, e.g. `IMG-*-WA*`
+  fileNamePattern?: string
+  // Prefix of the mime type, `image/png` or just `video/`
+  mimeType?: string
+  type?: 'IMAGE' | 'VIDEO'
+  minDurationSeconds?: number
+  maxDurationSeconds?: number
+  olderThanDays?: number
+  takenAfter?: string
+  takenBefore?: string
+  // Case-insensitive substrings of the EXIF fields
+  make?: string
+  model?: string
+  city?: string
+}
+
+export interface TriageRule {
+  id: string
+  name: string
+  enabled: boolean
+  conditions: RuleConditions
+  action: RuleSuggestion
+  // For the album action; the name is kept so the card can show it without loading albums
+  albumId?: string
+  albumName?: string
+}
+
+export const RULE_SUGGESTIONS: RuleSuggestion[] = ['keep', 'delete', 'archive', 'favorite', 'album']
+
+const TEXT_CONDITIONS = ['fileNamePattern', 'mimeType', 'takenAfter', 'takenBefore', 'make', 'model', 'city'] as const
+const NUMBER_CONDITIONS = ['minDurationSeconds', 'maxDurationSeconds', 'olderThanDays'] as const
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function sanitizeConditions(value: Record<string, unknown>): RuleConditions {
+  const conditions: RuleConditions = {}
+  TEXT_CONDITIONS.forEach((key) => {
+    const condition = value[key]
+    if (typeof condition === 'string') conditions[key] = condition
+  })
+  NUMBER_CONDITIONS.forEach((key) => {
+    const condition = value[key]
+    if (typeof condition === 'number' && Number.isFinite(condition)) conditions[key] = condition
+  })
+  if (value.type === 'IMAGE' || value.type === 'VIDEO') conditions.type = value.type
+  return conditions
+}
+
+// Keeps the well-formed rules of a stored payload, dropping unknown condition fields
+export function sanitizeTriageRules(value: unknown): TriageRule[] {
+  if (!Array.isArray(value)) return []
+  const rules: TriageRule[] = []
+  value.forEach((entry) => {
+    if (!isRecord(entry) || !isRecord(entry.conditions)) return
+    const { id, name, enabled, action, albumId, albumName } = entry
+    if (typeof id !== 'string' || typeof name !== 'string' || typeof enabled !== 'boolean') return
+    if (!RULE_SUGGESTIONS.includes(action as RuleSuggestion)) return
+    rules.push({
+      id,
+      name,
+      enabled,
+      conditions: sanitizeConditions(entry.conditions),
+      action: action as RuleSuggestion,
+      ...(typeof albumId === 'string' ? { albumId } : {}),
+      ...(typeof albumName === 'string' ? { albumName } : {}),
+    })
+  })
+  return rules
+}
+
+// Immich keeps the wall-clock time with a `Z` suffix, so whole days are bounded in UTC like the scope filters
+export function dayStart(day: string): string {
+  return `${day}T00:00:00.000Z`
+}
+
+export function dayEnd(day: string): string {
+  return `${day}T23:59:59.999Z`
+}
+
+export function dayOf(iso: string | undefined): string {
+  return iso ? iso.slice(0, 10) : ''
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+// Immich durations look like `0:01:02.345000`
+export function parseDuration(duration: string | undefined): number | null {
+  if (!duration) return null
+  const parts = duration.split(':').map(Number)
+  if (parts.length === 0 || parts.some((part) => Number.isNaN(part))) return null
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+function contains(value: string | null | undefined, needle: string): boolean {
+  return !!value && value.toLowerCase().includes(needle.toLowerCase())
+}
+
+export function hasConditions(conditions: RuleConditions): boolean {
+  return Object.values(conditions).some((value) => value !== undefined && value !== '')
+}
+
+export function matchesRule(asset: ImmichAsset, rule: TriageRule, now: number = Date.now()): boolean {
+  const { conditions } = rule
+  if (!rule.enabled || !hasConditions(conditions)) return false
+
+  const exif = asset.exifInfo
+  const taken = Date.parse(asset.localDateTime || asset.fileCreatedAt)
+
+  if (conditions.fileNamePattern && !globToRegExp(conditions.fileNamePattern).test(asset.originalFileName)) return false
+  if (conditions.mimeType && !(asset.originalMimeType ?? '').toLowerCase().startsWith(conditions.mimeType.toLowerCase())) {
+    return false
+  }
+  if (conditions.type && asset.type !== conditions.type) return false
+
+  if (conditions.minDurationSeconds !== undefined || conditions.maxDurationSeconds !== undefined) {
+    const seconds = parseDuration(asset.duration)
+    if (seconds === null) return false
+    if (conditions.minDurationSeconds !== undefined && seconds < conditions.minDurationSeconds) return false
+    if (conditions.maxDurationSeconds !== undefined && seconds > conditions.maxDurationSeconds) return false
+  }
+
+  if (conditions.olderThanDays !== undefined && !(now - taken > conditions.olderThanDays * DAY_MS)) return false
+  if (conditions.takenAfter && !(taken >= Date.parse(conditions.takenAfter))) return false
+  if (conditions.takenBefore && !(taken <= Date.parse(conditions.takenBefore))) return false
+
+  if (conditions.make && !contains(exif?.make, conditions.make)) return false
+  if (conditions.model && !contains(exif?.model, conditions.model)) return false
+  if (conditions.city && !contains(exif?.city, conditions.city)) return false
+  return true
+}
+
+// Rules are checked top to bottom, the first match wins
+export function findMatchingRule(asset: ImmichAsset, rules: TriageRule[], now: number = Date.now()): TriageRule | null {
+  return rules.find((rule) => matchesRule(asset, rule, now)) ?? null
+}
+
+// How many assets each rule would get, counting every asset only for the rule that wins it
+export function countRuleMatches(assets: ImmichAsset[], rules: TriageRule[], now: number = Date.now()): Map<string, number> {
+  const counts = new Map(rules.map((rule) => [rule.id, 0]))
+  assets.forEach((asset) => {
+    const rule = findMatchingRule(asset, rules, now)
+    if (rule) counts.set(rule.id, (counts.get(rule.id) ?? 0) + 1)
+  })
+  return counts
+}
+
+export function suggestionLabel(rule: TriageRule): string {
+  switch (rule.action) {
+    case 'delete':
+      return 'Delete'
+    case 'archive':
+      return 'Archive'
+    case 'favorite':
+      return 'Favorite'
+    case 'album':
+      return rule.albumName ? `Add to ${rule.albumName}` : 'Add to album'
+    default:
+      return 'Keep'
+  }
+}
+
+export function conditionsSummary(conditions: RuleConditions): string {
+  const parts: string[] = []
+  if (conditions.fileNamePattern) parts.push(`name ${conditions.fileNamePattern}`)
+  if (conditions.mimeType) parts.push(conditions.mimeType)
+  if (conditions.type) parts.push(conditions.type === 'VIDEO' ? 'videos' : 'photos')
+  if (conditions.minDurationSeconds !== undefined) parts.push(`≥ ${conditions.minDurationSeconds} s`)
+  if (conditions.maxDurationSeconds !== undefined) parts.push(`≤ ${conditions.maxDurationSeconds} s`)
+  if (conditions.olderThanDays !== undefined) parts.push(`older than ${conditions.olderThanDays} days`)
+  if (conditions.takenAfter) parts.push(`from ${dayOf(conditions.takenAfter)}`)
+  if (conditions.takenBefore) parts.push(`until ${dayOf(conditions.takenBefore)}`)
+  if (conditions.make) parts.push(`make ${conditions.make}`)
+  if (conditions.model) parts.push(`model ${conditions.model}`)
+  if (conditions.city) parts.push(`in ${conditions.city}`)
+  return parts.length > 0 ? parts.join(', ') : 'No conditions'
+}
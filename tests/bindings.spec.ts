@@ -0,0 +1,58 @@
+import {
+  createDefaultBindings,
+  findConflict,
+  HELP_KEY,
+  inputLabel,
+  inputsForAction,
+  keyComboFromEvent,
+  sanitizeBindings,
+} from '@/utils/bindings'
+
+function keydown(key: string, modifiers: Partial<Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>> = {}) {
+  return { key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers }
+}
+
+describe('bindings', () => {
+  it('normalizes key combos from keyboard events', () => {
+    expect(keyComboFromEvent(keydown('z', { ctrlKey: true }))).toBe('key:Ctrl+Z')
+    expect(keyComboFromEvent(keydown('K', { ctrlKey: true, shiftKey: true }))).toBe('key:Ctrl+Shift+K')
+    expect(keyComboFromEvent(keydown('ArrowLeft'))).toBe('key:ArrowLeft')
+    expect(keyComboFromEvent(keydown('?', { shiftKey: true }))).toBe(HELP_KEY)
+    expect(keyComboFromEvent(keydown(' '))).toBe('key:Space')
+    expect(keyComboFromEvent(keydown('Shift', { shiftKey: true }))).toBeNull()
+  })
+
+  it('reads Alt+digit from the physical key so ratings work on macOS', () => {
+    expect(keyComboFromEvent({ ...keydown('¡', { altKey: true }), code: 'Digit1' })).toBe('key:Alt+1')
+    expect(keyComboFromEvent({ ...keydown('3', { altKey: true }), code: 'Numpad3' })).toBe('key:Alt+3')
+    expect(createDefaultBindings()['key:Alt+1']).toBe('rate:1')
+    expect(createDefaultBindings()['key:1']).toBe('album:1')
+  })
+
+  it('keeps the previous defaults for keys and swipes', () => {
+    const bindings = createDefaultBindings()
+    expect(bindings['swipe-right']).toBe('keep')
+    expect(bindings['swipe-left']).toBe('delete')
+    expect(bindings['key:F']).toBe('favorite')
+    expect(bindings['key:7']).toBe('album:7')
+    expect(inputsForAction(bindings, 'undo').sort()).toEqual(['key:ArrowUp', 'key:Ctrl+Z', 'key:Meta+Z'])
+  })
+
+  it('reports conflicts only for inputs bound to another action', () => {
+    const bindings = createDefaultBindings()
+    expect(findConflict(bindings, 'key:F', 'keep')).toBe('favorite')
+    expect(findConflict(bindings, 'key:F', 'favorite')).toBeNull()
+    expect(findConflict(bindings, 'long-press', 'keep')).toBeNull()
+  })
+
+  it('drops unknown inputs and actions from stored bindings', () => {
+    expect(sanitizeBindings({
+      'double-tap': 'favorite',
+      'key:Q': 'explode',
+      'pinch': 'keep',
+      [HELP_KEY]: 'keep',
+    })).toEqual({ 'double-tap': 'favorite' })
+    expect(sanitizeBindings('nope')).toBeNull()
+    expect(inputLabel('key:Meta+ArrowUp')).toBe('⌘+↑')
+  })
+})
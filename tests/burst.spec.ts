@@ -0,0 +1,68 @@
+import { rgbaToThumbHash } from 'thumbhash'
+import { isBurstNeighbour, takeBurst, thumbhashDistance } from '@/utils/burst'
+import type { ImmichAsset } from '@/types/immich'
+
+function solidThumbhash(r: number, g: number, b: number): string {
+  const size = 8
+  const rgba = new Uint8Array(size * size * 4)
+  for (let i = 0; i < size * size; i++) {
+    rgba.set([r, g, b, 255], i * 4)
+  }
+  return btoa(String.fromCharCode(...rgbaToThumbHash(size, size, rgba)))
+}
+
+function makeAsset(id: string, takenAt: string, thumbhash: string): ImmichAsset {
+  return {
+    id,
+    deviceAssetId: `da-${id}`,
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: `/tmp/${id}.jpg`,
+    originalFileName: `${id}.jpg`,
+    thumbhash,
+    fileCreatedAt: takenAt,
+    fileModifiedAt: takenAt,
+    localDateTime: takenAt,
+    updatedAt: takenAt,
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+}
+
+describe('burst grouping', () => {
+  const red = solidThumbhash(200, 30, 30)
+  const almostRed = solidThumbhash(205, 32, 28)
+  const blue = solidThumbhash(20, 40, 220)
+
+  it('measures thumbhash similarity', () => {
+    expect(thumbhashDistance(red, red)).toBe(0)
+    expect(thumbhashDistance(red, almostRed)).toBeLessThan(0.05)
+    expect(thumbhashDistance(red, blue)).toBeGreaterThan(0.2)
+  })
+
+  it('only groups similar shots taken within a few seconds', () => {
+    const first = makeAsset('a', '2020-05-01T10:00:00.000Z', red)
+    expect(isBurstNeighbour(first, makeAsset('b', '2020-05-01T10:00:01.000Z', almostRed))).toBe(true)
+    expect(isBurstNeighbour(first, makeAsset('c', '2020-05-01T10:00:30.000Z', almostRed))).toBe(false)
+    expect(isBurstNeighbour(first, makeAsset('d', '2020-05-01T10:00:01.000Z', blue))).toBe(false)
+  })
+
+  it('takes consecutive burst members off the queue', () => {
+    const first = makeAsset('a', '2020-05-01T10:00:00.000Z', red)
+    const queue = [
+      makeAsset('b', '2020-05-01T10:00:01.000Z', almostRed),
+      makeAsset('c', '2020-05-01T10:00:02.000Z', red),
+      makeAsset('d', '2020-05-01T10:00:03.000Z', blue),
+      makeAsset('e', '2020-05-01T10:00:04.000Z', red),
+    ]
+
+    const burst = takeBurst(first, queue)
+
+    expect(burst.map((asset) => asset.id)).toEqual(['a', 'b', 'c'])
+    expect(queue.map((asset) => asset.id)).toEqual(['d', 'e'])
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  averageSecondsPerDecision,
+  dailyThroughput,
+  dayKey,
+  decisionStreaks,
+  estimateCompletion,
+  estimateSessionProgress,
+  ratioByYearTaken,
+} from '@/utils/journalStats'
+import type { JournalAction, JournalEntry } from '@/stores/journal'
+
+const NOW = new Date(2024, 4, 10, 18, 0, 0).getTime()
+const DAY = 24 * 60 * 60 * 1000
+
+let counter = 0
+function entry(action: JournalAction, at: number, takenAt: string | null = null): JournalEntry {
+  counter++
+  return { id: `e${counter}`, namespace: 'ns', action, assetId: `asset-${counter}`, assetType: 'IMAGE', takenAt, at }
+}
+
+describe('journal stats', () => {
+  it('counts decisions per local day, albums and favorites as kept', () => {
+    const days = dailyThroughput(
+      [entry('keep', NOW), entry('album', NOW - 1000), entry('delete', NOW - DAY), entry('favorite', NOW - 5 * DAY)],
+      3,
+      NOW
+    )
+    expect(days.map((day) => day.date)).toEqual([dayKey(NOW - 2 * DAY), dayKey(NOW - DAY), dayKey(NOW)])
+    expect(days[2]).toMatchObject({ kept: 2, deleted: 0 })
+    expect(days[1]).toMatchObject({ kept: 0, deleted: 1 })
+  })
+
+  it('groups the keep/delete ratio by year taken', () => {
+    expect(
+      ratioByYearTaken([
+        entry('keep', NOW, '2019-06-01T10:00:00.000Z'),
+        entry('delete', NOW, '2019-07-01T10:00:00.000Z'),
+        entry('delete', NOW, '2021-01-05T10:00:00.000Z'),
+        entry('keep', NOW, null),
+      ])
+    ).toEqual([
+      { year: '2019', kept: 1, deleted: 1 },
+      { year: '2021', kept: 0, deleted: 1 },
+      { year: 'Unknown', kept: 1, deleted: 0 },
+    ])
+  })
+
+  it('tracks current and longest streaks', () => {
+    const entries = [NOW, NOW - DAY, NOW - 4 * DAY, NOW - 5 * DAY, NOW - 6 * DAY].map((at) => entry('keep', at))
+    expect(decisionStreaks(entries, NOW)).toEqual({ current: 2, longest: 3 })
+    expect(decisionStreaks(entries, NOW + 3 * DAY).current).toBe(0)
+  })
+
+  it('ignores breaks when averaging time per decision', () => {
+    const entries = [entry('keep', NOW), entry('keep', NOW + 4000), entry('keep', NOW + 10000), entry('keep', NOW + 3600000)]
+    expect(averageSecondsPerDecision(entries)).toBe(5)
+    expect(averageSecondsPerDecision([entry('keep', NOW)])).toBeNull()
+  })
+
+  it('estimates the remaining days from the recent pace', () => {
+    const entries = [entry('keep', NOW), entry('keep', NOW), entry('delete', NOW - DAY), entry('keep', NOW - DAY)]
+    expect(estimateCompletion(100, 140, entries, NOW)).toMatchObject({
+      percent: (100 / 140) * 100,
+      remaining: 40,
+      perDay: 2,
+      daysLeft: 20,
+    })
+    expect(estimateCompletion(0, 10, [], NOW).daysLeft).toBeNull()
+  })
+
+  it('paces the session estimate on the latest decisions', () => {
+    const entries = [entry('keep', NOW - 3600000), entry('keep', NOW), entry('keep', NOW + 2000), entry('keep', NOW + 6000)]
+    expect(estimateSessionProgress(30, 40, entries)).toEqual({
+      reviewed: 30,
+      total: 40,
+      percent: 75,
+      remaining: 10,
+      secondsLeft: 30,
+    })
+    expect(estimateSessionProgress(5, 0, []).remaining).toBe(0)
+  })
+
+  it('counts a bulk batch as one step of the pace', () => {
+    const swipes = [entry('keep', NOW), entry('keep', NOW + 4000), entry('keep', NOW + 8000)]
+    const batch = Array.from({ length: 60 }, () => entry('delete', NOW + 12000))
+
+    expect(averageSecondsPerDecision([...swipes, ...batch])).toBe(4)
+    expect(estimateSessionProgress(70, 80, [...swipes, ...batch]).secondsLeft).toBe(40)
+  })
+})
@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto'
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { OUTBOX_STORE, requestToPromise, runTransaction } from '@/utils/idb'
+
+function readStoredEntries() {
+  return runTransaction(OUTBOX_STORE, 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(OUTBOX_STORE).getAll())
+  )
+}
+
+function requestBody(call: unknown[]): Record<string, unknown> {
+  return JSON.parse((call[1] as RequestInit).body as string)
+}
+
+describe('outbox store', () => {
+  let releaseFirst: (() => void) | null = null
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('merges consecutive deletes queued while a request is in flight', async () => {
+    let calls = 0
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      calls++
+      if (calls === 1) {
+        await new Promise<void>((resolve) => {
+          releaseFirst = resolve
+        })
+      }
+      return new Response('', { status: 200 })
+    }))
+
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Merge')
+    const outbox = useOutboxStore()
+
+    outbox.enqueue({ kind: 'albumAdd', albumId: 'album-1', ids: ['a'] })
+    outbox.enqueue({ kind: 'delete', ids: ['b'] })
+    outbox.enqueue({ kind: 'delete', ids: ['c'] })
+    outbox.enqueue({ kind: 'delete', ids: ['d'] })
+    expect(outbox.pendingCount).toBe(4)
+
+    releaseFirst?.()
+    await outbox.drain()
+
+    const fetchMock = fetch as unknown as Mock
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(requestBody(fetchMock.mock.calls[1])).toEqual({ ids: ['b', 'c', 'd'], force: false })
+    expect(outbox.pendingCount).toBe(0)
+    expect(await readStoredEntries()).toHaveLength(0)
+  })
+
+  it('keeps failed entries persisted and retries them with backoff', async () => {
+    let online = false
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      if (!online) throw new TypeError('Failed to fetch')
+      return new Response('', { status: 200 })
+    }))
+
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Retry')
+    const outbox = useOutboxStore()
+
+    outbox.enqueue({ kind: 'update', ids: ['a'], fields: { isFavorite: true } })
+    await outbox.drain()
+
+    expect(outbox.pendingCount).toBe(1)
+    expect(outbox.lastError).toBe('Failed to fetch')
+    expect(outbox.entries[0].attempts).toBe(1)
+    expect(outbox.entries[0].nextAttemptAt).toBeGreaterThan(Date.now())
+    const stored = await readStoredEntries()
+    expect(stored.some((entry: { ids: string[] }) => entry.ids.includes('a'))).toBe(true)
+
+    // Still backing off: draining again doesn't hit the network
+    await outbox.drain()
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    online = true
+    outbox.retryNow()
+    await outbox.drain()
+
+    expect(outbox.pendingCount).toBe(0)
+    expect(outbox.lastError).toBeNull()
+  })
+
+  it('cancels deletes that have not been sent yet', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      await new Promise<void>((resolve) => {
+        releaseFirst = resolve
+      })
+      return new Response('', { status: 200 })
+    }))
+
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Cancel')
+    const outbox = useOutboxStore()
+
+    outbox.enqueue({ kind: 'delete', ids: ['a'] })
+    outbox.enqueue({ kind: 'delete', ids: ['b'] })
+
+    expect(outbox.cancelPending('delete', 'a')).toBe(false)
+    expect(outbox.cancelPending('delete', 'b')).toBe(true)
+    expect(outbox.pendingCount).toBe(1)
+
+    releaseFirst?.()
+    await outbox.drain()
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,80 @@
+import { analyzePixels, assessQuality, laplacianVariance, metadataIssues } from '@/utils/quality'
+import type { ImmichAsset } from '@/types/immich'
+
+const SIZE = 32
+
+function makeAsset(overrides: Partial<ImmichAsset> = {}): ImmichAsset {
+  return {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/IMG_0001.jpg',
+    originalFileName: 'IMG_0001.jpg',
+    originalMimeType: 'image/jpeg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: true,
+    exifInfo: { make: 'Canon', exifImageWidth: 6000, exifImageHeight: 4000 },
+    ...overrides,
+  }
+}
+
+// RGBA pixels from a luma function
+function image(luma: (x: number, y: number) => number): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(SIZE * SIZE * 4)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const offset = (y * SIZE + x) * 4
+      rgba.fill(luma(x, y), offset, offset + 3)
+      rgba[offset + 3] = 255
+    }
+  }
+  return rgba
+}
+
+const checkerboard = image((x, y) => ((x + y) % 2 === 0 ? 40 : 210))
+const gradient = image((x) => 60 + x * 4)
+
+describe('quality heuristics', () => {
+  it('measures edges with the Laplacian variance', () => {
+    const flat = new Float32Array(9).fill(100)
+    expect(laplacianVariance(flat, 3, 3)).toBe(0)
+    expect(analyzePixels(checkerboard, SIZE, SIZE).sharpness).toBeGreaterThan(1000)
+    expect(analyzePixels(gradient, SIZE, SIZE).sharpness).toBeLessThan(1)
+  })
+
+  it('flags blank, blurry and badly exposed frames', () => {
+    const asset = makeAsset()
+    expect(assessQuality(asset, analyzePixels(image(() => 3), SIZE, SIZE)).issues).toEqual(['blank'])
+    expect(assessQuality(asset, analyzePixels(gradient, SIZE, SIZE)).issues).toEqual(['blurry'])
+    expect(assessQuality(asset, analyzePixels(image((x, y) => ((x + y) % 2 ? 0 : 60)), SIZE, SIZE)).issues).toEqual(['dark'])
+
+    const sharp = assessQuality(asset, analyzePixels(checkerboard, SIZE, SIZE))
+    expect(sharp).toMatchObject({ score: 0, issues: [] })
+  })
+
+  it('spots screenshots and tiny images from the metadata', () => {
+    expect(metadataIssues(makeAsset({ originalFileName: 'Screenshot 2024-01-02.png', exifInfo: {} }))).toEqual(['screenshot'])
+    expect(metadataIssues(makeAsset({ originalMimeType: 'image/png', originalFileName: 'a.png', exifInfo: undefined }))).toEqual(['screenshot'])
+    expect(metadataIssues(makeAsset({ exifInfo: { make: 'Canon', exifImageWidth: 320, exifImageHeight: 240 } }))).toEqual(['tiny'])
+    expect(metadataIssues(makeAsset())).toEqual([])
+  })
+
+  it('ranks by the worst issue and adds a little for each further one', () => {
+    const screenshot = assessQuality(makeAsset({ originalFileName: 'screenshot.png', exifInfo: {} }), null)
+    const tinyScreenshot = assessQuality(
+      makeAsset({ originalFileName: 'screenshot.png', exifInfo: { exifImageWidth: 100, exifImageHeight: 100 } }),
+      null
+    )
+    expect(screenshot.score).toBe(0.8)
+    expect(tinyScreenshot.score).toBeCloseTo(0.86)
+  })
+})
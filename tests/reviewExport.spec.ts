@@ -0,0 +1,123 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import { useReviewBackup } from '@/composables/useReviewBackup'
+import { buildReviewCsv, parseReviewExport, ReviewExportError } from '@/utils/reviewExport'
+
+function exportText(overrides: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    format: 'immich-swipe-review',
+    version: 1,
+    exportedAt: '2024-05-01T10:00:00.000Z',
+    server: 'http://server-a',
+    user: 'Alice',
+    stats: { keptCount: 7, deletedCount: 3 },
+    preferences: { reviewOrder: 'chronological', stageDeletions: true },
+    reviewed: [
+      { id: 'asset-1', decision: 'keep', reviewedAt: 1714557600000, fileName: 'a.jpg' },
+      { id: 'asset-2', decision: 'delete', reviewedAt: null, fileName: null },
+    ],
+    ...overrides,
+  })
+}
+
+describe('review export', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('rejects unknown formats and versions', () => {
+    expect(() => parseReviewExport('not json')).toThrow(ReviewExportError)
+    expect(() => parseReviewExport(exportText({ format: 'other' }))).toThrow('not an Immich Swipe export')
+    expect(() => parseReviewExport(exportText({ version: 2 }))).toThrow('Unsupported export version: 2')
+    expect(() => parseReviewExport(exportText({ reviewed: [{ id: 'x', decision: 'maybe' }] }))).toThrow(
+      'Entry 1 has an unknown decision'
+    )
+  })
+
+  it('drops preference fields of the wrong type or with unknown values', () => {
+    const { preferences } = parseReviewExport(exportText({
+      preferences: {
+        reviewOrder: 'sideways',
+        stageDeletions: 'yes',
+        syncReviewed: true,
+        albumHotkeys: { 1: 'album-1', 2: 42 },
+        reviewScope: { city: 'Lisbon', albumIds: 'album-1', minRating: 3 },
+        chronologicalCursors: { chronological: { takenAt: '2024-01-01T00:00:00.000Z', scope: '[]' }, other: {} },
+        smartQuery: 7,
+        recentSmartQueries: 'beach',
+        triageRules: [{ id: 'rule-1', name: 'Broken', enabled: true, action: 'delete' }],
+        curationAlbum: { id: 'album-1' },
+      },
+    }))
+
+    expect(preferences).toEqual({
+      syncReviewed: true,
+      albumHotkeys: { 1: 'album-1' },
+      reviewScope: { city: 'Lisbon', minRating: 3 },
+      chronologicalCursors: { chronological: { takenAt: '2024-01-01T00:00:00.000Z', scope: '[]' } },
+      triageRules: [],
+    })
+  })
+
+  it('imports malformed preferences without breaking the store', async () => {
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Alice')
+    const parsed = parseReviewExport(exportText({
+      preferences: { reviewOrder: 42, recentSmartQueries: { 0: 'beach' }, curationAlbum: 'album-1' },
+    }))
+
+    await useReviewBackup().applyImport(parsed, 'replace')
+
+    const preferences = usePreferencesStore()
+    expect(preferences.reviewOrder).toBe('random')
+    expect(preferences.curationAlbum).toBeNull()
+    preferences.startSmartSearch('beach')
+    expect(preferences.recentSmartQueries).toEqual(['beach'])
+  })
+
+  it('writes one CSV row per decision with escaped file names', () => {
+    const csv = buildReviewCsv([
+      { id: 'asset-1', decision: 'keep', reviewedAt: 0, fileName: 'holiday, day 1.jpg' },
+      { id: 'asset-2', decision: 'delete', reviewedAt: null, fileName: null },
+    ])
+    expect(csv.split('\r\n')).toEqual([
+      'asset_id,file_name,decision,reviewed_at',
+      'asset-1,"holiday, day 1.jpg",keep,1970-01-01T00:00:00.000Z',
+      'asset-2,,delete,',
+      '',
+    ])
+  })
+
+  it('merges without overriding local decisions', async () => {
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Alice')
+    const reviewed = useReviewedStore()
+    const ui = useUiStore()
+    reviewed.markReviewed('asset-1', 'delete')
+    ui.incrementDeleted()
+
+    const added = await useReviewBackup().applyImport(parseReviewExport(exportText()), 'merge')
+
+    expect(added).toBe(1)
+    expect(reviewed.getDecision('asset-1')).toBe('delete')
+    expect(reviewed.getDecision('asset-2')).toBe('delete')
+    expect(ui.deletedCount).toBe(2)
+    expect(usePreferencesStore().reviewOrder).toBe('random')
+  })
+
+  it('replaces decisions, stats and settings', async () => {
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Alice')
+    const reviewed = useReviewedStore()
+    reviewed.markReviewed('asset-9', 'keep')
+
+    await useReviewBackup().applyImport(parseReviewExport(exportText()), 'replace')
+
+    expect(reviewed.isReviewed('asset-9')).toBe(false)
+    expect(reviewed.getDecision('asset-1')).toBe('keep')
+    expect(reviewed.entries().find((entry) => entry.id === 'asset-1')?.fileName).toBe('a.jpg')
+    expect(useUiStore().keptCount).toBe(7)
+    expect(usePreferencesStore().stageDeletions).toBe(true)
+  })
+})
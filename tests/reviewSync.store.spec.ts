@@ -0,0 +1,76 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useReviewSyncStore } from '@/stores/reviewSync'
+
+const SERVER = 'http://immich.example.com'
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('review sync store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reconciles kept ids with the server tag in both directions', async () => {
+    localStorage.setItem(`immich-swipe-preferences:${SERVER}:Sync`, JSON.stringify({ syncReviewed: true }))
+    localStorage.setItem(`immich-swipe-reviewed:${SERVER}:Sync`, JSON.stringify({ v: 1, kept: ['local-1'], deleted: [] }))
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      const method = init?.method ?? 'GET'
+      if (url.endsWith('/tags') && method === 'GET') return jsonResponse([])
+      if (url.endsWith('/tags') && method === 'POST') {
+        return jsonResponse({ id: 'tag-1', name: 'immich-swipe-reviewed', value: 'immich-swipe-reviewed' })
+      }
+      if (url.endsWith('/search/metadata')) {
+        return jsonResponse({ assets: { items: [{ id: 'remote-1' }], nextPage: null } })
+      }
+      return new Response('', { status: 200 })
+    }))
+
+    useAuthStore().setConfig(SERVER, 'api-key', 'Sync')
+    const sync = useReviewSyncStore()
+    await sync.reconcile()
+    await sync.whenReconciled()
+    await useOutboxStore().drain()
+
+    const reviewed = useReviewedStore()
+    expect(reviewed.getDecision('remote-1')).toBe('keep')
+
+    const fetchMock = fetch as unknown as Mock
+    const tagCalls = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/tags/tag-1/assets'))
+    expect(tagCalls).toHaveLength(1)
+    expect(tagCalls[0][1].method).toBe('PUT')
+    expect(JSON.parse(tagCalls[0][1].body)).toEqual({ ids: ['local-1'] })
+
+    reviewed.markReviewed('new-1', 'keep')
+    await useOutboxStore().drain()
+    const lastCall = fetchMock.mock.calls[fetchMock.mock.calls.length - 1]
+    expect(lastCall[0]).toBe(`${SERVER}/api/tags/tag-1/assets`)
+    expect(JSON.parse(lastCall[1].body)).toEqual({ ids: ['new-1'] })
+  })
+
+  it('does not talk to the server while sync is off', async () => {
+    vi.stubGlobal('fetch', vi.fn())
+
+    useAuthStore().setConfig(SERVER, 'api-key', 'Off')
+    const sync = useReviewSyncStore()
+    await sync.reconcile()
+    useReviewedStore().markReviewed('asset-1', 'keep')
+
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
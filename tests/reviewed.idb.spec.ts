@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto'
+import { createPinia, setActivePinia } from 'pinia'
+import { useAuthStore } from '@/stores/auth'
+import { useReviewedStore } from '@/stores/reviewed'
+import { REVIEWED_STORE, requestToPromise, runTransaction } from '@/utils/idb'
+
+interface StoredRecord {
+  namespace: string
+  id: string
+  decision: string
+}
+
+function readRecords(): Promise<StoredRecord[]> {
+  return runTransaction(REVIEWED_STORE, 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(REVIEWED_STORE).getAll())
+  )
+}
+
+describe('reviewed store (IndexedDB)', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('migrates the v1 localStorage payload and drops it afterwards', async () => {
+    const key = 'immich-swipe-reviewed:http://server-a:Migrate'
+    localStorage.setItem(key, JSON.stringify({ v: 1, kept: ['asset-1'], deleted: ['asset-2'] }))
+
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Migrate')
+    const reviewed = useReviewedStore()
+    await reviewed.whenReady()
+
+    expect(reviewed.getDecision('asset-1')).toBe('keep')
+    expect(reviewed.getDecision('asset-2')).toBe('delete')
+    expect(localStorage.getItem(key)).toBeNull()
+
+    const records = (await readRecords()).filter((record) => record.namespace === key)
+    expect(records.map((record) => [record.id, record.decision]).sort()).toEqual([
+      ['asset-1', 'keep'],
+      ['asset-2', 'delete'],
+    ])
+  })
+
+  it('writes single records and reloads them', async () => {
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Incremental')
+    const reviewed = useReviewedStore()
+    await reviewed.whenReady()
+
+    reviewed.markReviewed('asset-1', 'keep')
+    reviewed.markReviewed('asset-2', 'delete')
+    reviewed.unmarkReviewed('asset-2')
+    await reviewed.flushWrites()
+
+    expect(Object.keys(localStorage).some((k) => k.startsWith('immich-swipe-reviewed'))).toBe(false)
+
+    setActivePinia(createPinia())
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Incremental')
+    const reloaded = useReviewedStore()
+    await reloaded.whenReady()
+
+    expect(reloaded.getDecision('asset-1')).toBe('keep')
+    expect(reloaded.isReviewed('asset-2')).toBe(false)
+  })
+
+  it('clears all records of the user on reset', async () => {
+    useAuthStore().setConfig('http://server-a', 'key-a', 'Reset')
+    const reviewed = useReviewedStore()
+    await reviewed.whenReady()
+
+    reviewed.markReviewed('asset-1', 'keep')
+    await reviewed.flushWrites()
+    reviewed.resetReviewed()
+    await reviewed.whenReady()
+
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+    const records = await readRecords()
+    expect(records.some((record) => record.namespace.endsWith(':Reset'))).toBe(false)
+  })
+})
@@ -0,0 +1,150 @@
+import {
+  conditionsSummary,
+  countRuleMatches,
+  dayEnd,
+  dayOf,
+  dayStart,
+  findMatchingRule,
+  matchesRule,
+  parseDuration,
+  sanitizeTriageRules,
+} from '@/utils/rules'
+import type { TriageRule } from '@/utils/rules'
+import type { ImmichAsset } from '@/types/immich'
+
+const NOW = Date.parse('2024-06-01T12:00:00Z')
+
+function makeAsset(overrides: Partial<ImmichAsset> = {}): ImmichAsset {
+  return {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/IMG_0001.jpg',
+    originalFileName: 'IMG_0001.jpg',
+    originalMimeType: 'image/jpeg',
+    fileCreatedAt: '2024-05-01T10:00:00.000Z',
+    fileModifiedAt: '2024-05-01T10:00:00.000Z',
+    localDateTime: '2024-05-01T10:00:00.000Z',
+    updatedAt: '2024-05-01T10:00:00.000Z',
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: true,
+    exifInfo: { make: 'Apple', model: 'iPhone 13', city: 'Lisbon' },
+    ...overrides,
+  }
+}
+
+function makeRule(overrides: Partial<TriageRule> = {}): TriageRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    enabled: true,
+    conditions: {},
+    action: 'delete',
+    ...overrides,
+  }
+}
+
+describe('rules', () => {
+  it('matches file names with wildcards, ignoring case', () => {
+    const rule = makeRule({ conditions: { fileNamePattern: 'img-*-wa*' } })
+
+    expect(matchesRule(makeAsset({ originalFileName: 'IMG-20240501-WA0003.jpg' }), rule, NOW)).toBe(true)
+    expect(matchesRule(makeAsset({ originalFileName: 'IMG_0001.jpg' }), rule, NOW)).toBe(false)
+    // Dots are literal, not regex wildcards
+    expect(matchesRule(makeAsset({ originalFileName: 'aXb' }), makeRule({ conditions: { fileNamePattern: 'a.b' } }), NOW)).toBe(false)
+  })
+
+  it('requires every condition that is set', () => {
+    const rule = makeRule({ conditions: { type: 'VIDEO', maxDurationSeconds: 3, make: 'apple' } })
+
+    expect(matchesRule(makeAsset({ type: 'VIDEO', duration: '0:00:02.500000' }), rule, NOW)).toBe(true)
+    expect(matchesRule(makeAsset({ type: 'VIDEO', duration: '0:00:12.000000' }), rule, NOW)).toBe(false)
+    expect(matchesRule(makeAsset({ type: 'IMAGE', duration: '0:00:02.500000' }), rule, NOW)).toBe(false)
+    expect(matchesRule(makeAsset({ type: 'VIDEO', duration: '0:00:02.500000', exifInfo: {} }), rule, NOW)).toBe(false)
+  })
+
+  it('checks dates, age, mime type and city', () => {
+    const asset = makeAsset({ originalMimeType: 'image/png' })
+
+    expect(matchesRule(asset, makeRule({ conditions: { olderThanDays: 30 } }), NOW)).toBe(true)
+    expect(matchesRule(asset, makeRule({ conditions: { olderThanDays: 60 } }), NOW)).toBe(false)
+    expect(matchesRule(asset, makeRule({ conditions: { takenAfter: '2024-04-01T00:00:00Z', takenBefore: '2024-05-02T00:00:00Z' } }), NOW)).toBe(true)
+    expect(matchesRule(asset, makeRule({ conditions: { takenAfter: '2024-05-02T00:00:00Z' } }), NOW)).toBe(false)
+    expect(matchesRule(asset, makeRule({ conditions: { mimeType: 'image/' } }), NOW)).toBe(true)
+    expect(matchesRule(asset, makeRule({ conditions: { mimeType: 'video/' } }), NOW)).toBe(false)
+    expect(matchesRule(asset, makeRule({ conditions: { city: 'lis' } }), NOW)).toBe(true)
+  })
+
+  it('bounds whole days in the wall-clock time Immich stores', () => {
+    const rule = makeRule({ conditions: { takenAfter: dayStart('2024-01-01'), takenBefore: dayEnd('2024-01-31') } })
+    const at = (localDateTime: string) => makeAsset({ localDateTime })
+
+    expect(matchesRule(at('2023-12-31T23:30:00.000Z'), rule, NOW)).toBe(false)
+    expect(matchesRule(at('2024-01-01T00:00:00.000Z'), rule, NOW)).toBe(true)
+    expect(matchesRule(at('2024-01-31T23:59:00.000Z'), rule, NOW)).toBe(true)
+    expect(matchesRule(at('2024-02-01T00:30:00.000Z'), rule, NOW)).toBe(false)
+    expect(dayOf(rule.conditions.takenAfter)).toBe('2024-01-01')
+    expect(dayOf(rule.conditions.takenBefore)).toBe('2024-01-31')
+    expect(conditionsSummary(rule.conditions)).toBe('from 2024-01-01, until 2024-01-31')
+  })
+
+  it('never matches with no conditions or when disabled', () => {
+    const asset = makeAsset()
+
+    expect(matchesRule(asset, makeRule(), NOW)).toBe(false)
+    expect(matchesRule(asset, makeRule({ enabled: false, conditions: { make: 'Apple' } }), NOW)).toBe(false)
+  })
+
+  it('lets the first matching rule win, also in the dry-run counts', () => {
+    const rules = [
+      makeRule({ id: 'png', action: 'delete', conditions: { mimeType: 'image/png' } }),
+      makeRule({ id: 'iphone', action: 'keep', conditions: { make: 'Apple' } }),
+      makeRule({ id: 'never', action: 'archive', conditions: { city: 'Oslo' } }),
+    ]
+    const png = makeAsset({ id: 'png', originalMimeType: 'image/png' })
+    const jpeg = makeAsset({ id: 'jpeg' })
+    const other = makeAsset({ id: 'other', exifInfo: {} })
+
+    expect(findMatchingRule(png, rules, NOW)?.id).toBe('png')
+    expect(findMatchingRule(jpeg, rules, NOW)?.id).toBe('iphone')
+    expect(findMatchingRule(other, rules, NOW)).toBeNull()
+
+    const counts = countRuleMatches([png, jpeg, other], rules, NOW)
+    expect(Object.fromEntries(counts)).toEqual({ png: 1, iphone: 1, never: 0 })
+  })
+
+  it('parses Immich durations and summarizes conditions', () => {
+    expect(parseDuration('0:01:02.500000')).toBe(62.5)
+    expect(parseDuration(undefined)).toBeNull()
+    expect(parseDuration('n/a')).toBeNull()
+
+    expect(conditionsSummary({ fileNamePattern: 'IMG-*-WA*', type: 'VIDEO', maxDurationSeconds: 3 })).toBe(
+      'name IMG-*-WA*, videos, ≤ 3 s'
+    )
+    expect(conditionsSummary({})).toBe('No conditions')
+  })
+
+  it('keeps only well-formed stored rules', () => {
+    const stored = [
+      makeRule({ id: 'ok', conditions: { make: 'Apple', maxDurationSeconds: 3 } }),
+      { id: 'no-conditions', name: 'Broken', enabled: true, action: 'delete' },
+      { ...makeRule({ id: 'bad-action' }), action: 'explode' },
+      { ...makeRule({ id: 'no-enabled' }), enabled: 'yes' },
+      { ...makeRule({ id: 'odd-fields' }), conditions: { city: 'Oslo', olderThanDays: '30', type: 'GIF', extra: 1 } },
+      null,
+      'rule',
+    ]
+
+    const rules = sanitizeTriageRules(stored)
+
+    expect(rules.map((rule) => rule.id)).toEqual(['ok', 'odd-fields'])
+    expect(rules[1].conditions).toEqual({ city: 'Oslo' })
+    expect(sanitizeTriageRules({ id: 'ok' })).toEqual([])
+    expect(() => findMatchingRule(makeAsset(), rules, NOW)).not.toThrow()
+  })
+})
@@ -0,0 +1,54 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { useAuthStore } from '@/stores/auth'
+import { useStagedStore } from '@/stores/staged'
+import type { ImmichAsset } from '@/types/immich'
+
+function makeAsset(id: string): ImmichAsset {
+  const now = new Date().toISOString()
+  return {
+    id,
+    deviceAssetId: `da-${id}`,
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: `/tmp/${id}.jpg`,
+    originalFileName: `${id}.jpg`,
+    fileCreatedAt: now,
+    fileModifiedAt: now,
+    localDateTime: now,
+    updatedAt: now,
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+}
+
+describe('staged store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+  })
+
+  it('persists staged assets and unstages them', () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://server-a', 'key-a', 'Alice')
+
+    const staged = useStagedStore()
+    staged.stage(makeAsset('asset-1'))
+    staged.stage(makeAsset('asset-2'))
+    staged.stage(makeAsset('asset-1'))
+
+    expect(staged.count).toBe(2)
+    expect(staged.isStaged('asset-1')).toBe(true)
+
+    const key = Object.keys(localStorage).find((k) => k.startsWith('immich-swipe-staged'))
+    const stored = JSON.parse(localStorage.getItem(key || '') || '{}')
+    expect(stored.items.map((item: { id: string }) => item.id)).toEqual(['asset-1', 'asset-2'])
+
+    staged.unstage(['asset-1'])
+    expect(staged.isStaged('asset-1')).toBe(false)
+    expect(staged.count).toBe(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useAssetDetails } from '@/composables/useAssetDetails'
+import { useAuthStore } from '@/stores/auth'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useAssetDetails', () => {
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+
+  function mockServer() {
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+      const url = String(input)
+      if (url.includes('/albums?assetId=')) {
+        return new Response(JSON.stringify([{ id: 'album-1', albumName: 'Trips' }]), { status: 200 })
+      }
+      return new Response(JSON.stringify({ exifInfo: { lensModel: 'RF 35mm', iso: 200 } }), { status: 200 })
+    }))
+  }
+
+  function requestedUrls(): string[] {
+    return (fetch as unknown as Mock).mock.calls.map(([input]) => String(input))
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    mockServer()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('fetches the full asset when it has metadata and lists its albums', async () => {
+    const { details, error, load } = useAssetDetails()
+
+    await load({ ...dummyAsset, hasMetadata: true })
+
+    expect(requestedUrls().some((url) => url.endsWith('/assets/asset-1'))).toBe(true)
+    expect(details.value?.asset.exifInfo?.lensModel).toBe('RF 35mm')
+    expect(details.value?.albums.map((album) => album.albumName)).toEqual(['Trips'])
+    expect(error.value).toBeNull()
+  })
+
+  it('skips the asset request without metadata and serves repeats from cache', async () => {
+    const { details, load } = useAssetDetails()
+
+    await load(dummyAsset)
+    await load(dummyAsset)
+
+    const urls = requestedUrls()
+    expect(urls.some((url) => url.endsWith('/assets/asset-1'))).toBe(false)
+    expect(urls.filter((url) => url.includes('/albums?assetId=asset-1'))).toHaveLength(1)
+    expect(details.value?.albums).toHaveLength(1)
+  })
+})
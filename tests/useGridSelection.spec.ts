@@ -0,0 +1,43 @@
+import { ref } from 'vue'
+import { useGridSelection } from '@/composables/useGridSelection'
+
+describe('useGridSelection', () => {
+  const ids = ref(['a', 'b', 'c', 'd', 'e'])
+
+  function selected(selection: ReturnType<typeof useGridSelection>): string[] {
+    return ids.value.filter((id) => selection.isSelected(id))
+  }
+
+  it('toggles on tap and extends from the anchor on shift-click', () => {
+    const selection = useGridSelection(ids)
+
+    selection.toggle('b')
+    selection.extendTo('d')
+    expect(selected(selection)).toEqual(['b', 'c', 'd'])
+
+    selection.toggle('c')
+    expect(selected(selection)).toEqual(['b', 'd'])
+    selection.extendTo('a')
+    expect(selected(selection)).toEqual(['a', 'b', 'c', 'd'])
+    expect(selection.count.value).toBe(4)
+  })
+
+  it('paints the dragged range and shrinks it again when moving back', () => {
+    const selection = useGridSelection(ids)
+    selection.toggle('e')
+
+    selection.startDrag('a')
+    selection.dragOver('c')
+    expect(selected(selection)).toEqual(['a', 'b', 'c', 'e'])
+    selection.dragOver('b')
+    expect(selected(selection)).toEqual(['a', 'b', 'e'])
+    selection.endDrag()
+
+    // Starting on a selected item clears instead
+    selection.startDrag('b')
+    selection.dragOver('e')
+    selection.endDrag()
+    expect(selected(selection)).toEqual(['a'])
+    expect(selection.isDragging.value).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich archive flow', () => {
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({}), { status: 200 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('archives the current asset as its own decision and undoes it', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const uiStore = useUiStore()
+    const reviewed = useReviewedStore()
+    const outbox = useOutboxStore()
+
+    const immich = useImmich()
+    immich.currentAsset.value = dummyAsset
+
+    await immich.archivePhoto()
+    await outbox.drain()
+
+    expect(reviewed.getDecision('asset-1')).toBe('archive')
+    expect(uiStore.archivedCount).toBe(1)
+    expect(uiStore.keptCount).toBe(0)
+
+    await immich.undoLastAction()
+    await outbox.drain()
+
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+    expect(uiStore.archivedCount).toBe(0)
+    expect(immich.currentAsset.value?.id).toBe('asset-1')
+
+    const fetchMock = fetch as unknown as Mock
+    const updates = fetchMock.mock.calls
+      .filter(([url, init]) => String(url).endsWith('/assets') && (init as RequestInit)?.method === 'PUT')
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+    expect(updates).toEqual([
+      { ids: ['asset-1'], isArchived: true },
+      { ids: ['asset-1'], isArchived: false },
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useHistoryStore } from '@/stores/history'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich bulk actions', () => {
+  function makeAsset(id: string): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type: 'IMAGE',
+      originalPath: `/tmp/${id}.jpg`,
+      originalFileName: `${id}.jpg`,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed: false,
+      isOffline: false,
+      hasMetadata: false,
+      exifInfo: { fileSizeInByte: 1000 },
+    }
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({}), { status: 200 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('records each asset like a swipe while sending one request', async () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const uiStore = useUiStore()
+    const reviewed = useReviewedStore()
+    const history = useHistoryStore()
+    const outbox = useOutboxStore()
+
+    const immich = useImmich()
+    immich.bulkKeep([makeAsset('a')])
+    immich.bulkDelete([makeAsset('b'), makeAsset('c')])
+    await outbox.drain()
+
+    expect(reviewed.getDecision('a')).toBe('keep')
+    expect(reviewed.getDecision('b')).toBe('delete')
+    expect(reviewed.getDecision('c')).toBe('delete')
+    expect(uiStore.keptCount).toBe(1)
+    expect(uiStore.deletedCount).toBe(2)
+    expect(uiStore.reclaimedBytes).toBe(2000)
+    expect(history.entries.map((entry) => [entry.type, entry.asset.id])).toEqual([
+      ['keep', 'a'],
+      ['delete', 'b'],
+      ['delete', 'c'],
+    ])
+
+    const deletes = (fetch as unknown as Mock).mock.calls
+      .filter(([, init]) => (init as RequestInit)?.method === 'DELETE')
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string).ids)
+    expect(deletes).toEqual([['b', 'c']])
+  })
+})
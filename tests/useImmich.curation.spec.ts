@@ -0,0 +1,112 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useCuratedStore } from '@/stores/curated'
+import { useOutboxStore } from '@/stores/outbox'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich album curation', () => {
+  function makeAsset(id: string): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type: 'IMAGE',
+      originalPath: `/tmp/${id}.jpg`,
+      originalFileName: `${id}.jpg`,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed: false,
+      isOffline: false,
+      hasMetadata: false,
+    }
+  }
+
+  const album = { id: 'album-1', albumName: 'Holidays' }
+  const target = { id: 'album-2', albumName: 'Best of', assetCount: 0 }
+  const items = [makeAsset('a-1'), makeAsset('a-2'), makeAsset('a-3'), makeAsset('a-4')]
+
+  function requests(path: string, method: string) {
+    return (fetch as unknown as Mock).mock.calls
+      .filter(([url, init]) => String(url).endsWith(path) && (init as RequestInit)?.method === method)
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+      if (String(input).includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items, nextPage: null } }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('lists reviewed assets, removes left and moves to another album without touching the reviewed cache', async () => {
+    const reviewed = useReviewedStore()
+    const outbox = useOutboxStore()
+    await reviewed.whenReady()
+    reviewed.markReviewed('a-1', 'keep')
+    usePreferencesStore().startCuration(album)
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    const [search] = requests('/search/metadata', 'POST')
+    expect(search).toMatchObject({ albumIds: ['album-1'], order: 'asc' })
+    expect(immich.currentAsset.value?.id).toBe('a-1')
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('a-2'))
+
+    await immich.keepPhoto()
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('a-3'))
+    await immich.deletePhoto()
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('a-4'))
+    await immich.keepPhotoToAlbum(target)
+    await outbox.drain()
+
+    expect(requests('/albums/album-1/assets', 'DELETE')).toEqual([{ ids: ['a-2'] }, { ids: ['a-3'] }])
+    expect(requests('/albums/album-2/assets', 'PUT')).toEqual([{ ids: ['a-3'] }])
+    // Nothing goes to the trash
+    expect(requests('/api/assets', 'DELETE')).toEqual([])
+
+    const curated = useCuratedStore()
+    expect(curated.getDecision('album-1', 'a-1')).toBe('keep')
+    expect(curated.getDecision('album-1', 'a-2')).toBe('remove')
+    expect(curated.getDecision('album-1', 'a-3')).toBe('move')
+    expect(reviewed.getDecision('a-1')).toBe('keep')
+    expect(reviewed.isReviewed('a-2')).toBe(false)
+    expect(reviewed.isReviewed('a-3')).toBe(false)
+  })
+
+  it('undoes a removal by putting the asset back into the album', async () => {
+    const outbox = useOutboxStore()
+    usePreferencesStore().startCuration(album)
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    await immich.deletePhoto()
+    await outbox.drain()
+    await immich.undoLastAction()
+    await outbox.drain()
+
+    expect(requests('/albums/album-1/assets', 'DELETE')).toEqual([{ ids: ['a-1'] }])
+    expect(requests('/albums/album-1/assets', 'PUT')).toEqual([{ ids: ['a-1'] }])
+    expect(useCuratedStore().isCurated('album-1', 'a-1')).toBe(false)
+    expect(immich.currentAsset.value?.id).toBe('a-1')
+  })
+})
@@ -0,0 +1,110 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich chronological cursor', () => {
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: '2021-06-01T10:00:00.000Z',
+    fileModifiedAt: '2021-06-01T10:00:00.000Z',
+    localDateTime: '2021-06-01T12:00:00.000Z',
+    updatedAt: '2021-06-01T10:00:00.000Z',
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+      if (String(input).includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items: [dummyAsset] }, hasNextPage: false }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function searchBodies(): Record<string, unknown>[] {
+    return (fetch as unknown as Mock).mock.calls
+      .filter(([url]) => String(url).includes('/search/metadata'))
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+  }
+
+  it('saves the asset on screen and resumes from it in a new session', async () => {
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological')
+
+    await useImmich().loadInitialAsset()
+    expect(prefs.getChronologicalCursor('chronological')).toBe(dummyAsset.fileCreatedAt)
+    expect(searchBodies()[0].takenAfter).toBeUndefined()
+
+    await useImmich().loadInitialAsset()
+    expect(searchBodies()[1].takenAfter).toBe(dummyAsset.fileCreatedAt)
+  })
+
+  it('does not move the cursor past a skipped asset', async () => {
+    const later = { ...dummyAsset, id: 'asset-2', fileCreatedAt: '2021-07-01T10:00:00.000Z' }
+    const latest = { ...dummyAsset, id: 'asset-3', fileCreatedAt: '2021-08-01T10:00:00.000Z' }
+    ;(fetch as unknown as Mock).mockImplementation(async (input: RequestInfo | URL) => {
+      if (String(input).includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items: [dummyAsset, later, latest] }, hasNextPage: false }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    })
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological')
+    const immich = useImmich()
+
+    await immich.loadInitialAsset()
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('asset-2'))
+    await immich.skipPhoto()
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('asset-3'))
+    await immich.keepPhoto()
+
+    expect(immich.currentAsset.value?.id).toBe('asset-3')
+    expect(prefs.getChronologicalCursor('chronological')).toBe(dummyAsset.fileCreatedAt)
+  })
+
+  it('keeps cursors per scope and narrows the scope range to them', async () => {
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological-desc')
+    prefs.setChronologicalCursor('chronological-desc', '2020-01-01T00:00:00.000Z')
+
+    prefs.setReviewScope({ city: 'Oslo', takenBefore: '2019-01-01T00:00:00.000Z' })
+    expect(prefs.getChronologicalCursor('chronological-desc')).toBeNull()
+
+    prefs.setChronologicalCursor('chronological-desc', '2020-01-01T00:00:00.000Z')
+    await useImmich().loadInitialAsset()
+    expect(searchBodies()[0].takenBefore).toBe('2019-01-01T00:00:00.000Z')
+  })
+
+  it('starts from a picked day and starts over without one', async () => {
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological')
+    const immich = useImmich()
+
+    await immich.startChronologicalFrom('2015-03-02')
+    expect(searchBodies()[0].takenAfter).toBe(new Date(2015, 2, 2).toISOString())
+
+    await immich.startChronologicalFrom(null)
+    expect(searchBodies()[1].takenAfter).toBeUndefined()
+  })
+})
@@ -0,0 +1,114 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import type { ImmichAsset } from '@/types/immich'
+
+function makeAsset(id: string): ImmichAsset {
+  const now = new Date().toISOString()
+  return {
+    id,
+    deviceAssetId: `da-${id}`,
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: `/tmp/${id}.jpg`,
+    originalFileName: `${id}.jpg`,
+    fileCreatedAt: now,
+    fileModifiedAt: now,
+    localDateTime: now,
+    updatedAt: now,
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+}
+
+describe('useImmich duplicates mode', () => {
+  const group = {
+    duplicateId: 'dup-1',
+    assets: [
+      { ...makeAsset('asset-1'), exifInfo: { fileSizeInByte: 1000 } },
+      makeAsset('asset-2'),
+      { ...makeAsset('asset-3'), exifInfo: { fileSizeInByte: 500 } },
+    ],
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, ..._rest: unknown[]) => {
+      const url = typeof input === 'string' ? input : input.toString()
+
+      if (url.includes('/duplicates')) {
+        return new Response(JSON.stringify([group]), { status: 200 })
+      }
+
+      return new Response('', { status: 200 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the picked asset, trashes the rest and undoes it', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    usePreferencesStore().setReviewOrder('duplicates')
+    const reviewed = useReviewedStore()
+    const uiStore = useUiStore()
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+    expect(immich.currentGroup.value?.assets.map((asset) => asset.id)).toEqual(['asset-1', 'asset-2', 'asset-3'])
+
+    await immich.resolveGroup('asset-2')
+    await useOutboxStore().drain()
+
+    const fetchMock = fetch as unknown as Mock
+    const deleteCalls = fetchMock.mock.calls.filter(([, init]) => (init as RequestInit)?.method === 'DELETE')
+    expect(deleteCalls).toHaveLength(1)
+    expect(JSON.parse((deleteCalls[0][1] as RequestInit).body as string).ids).toEqual(['asset-1', 'asset-3'])
+    expect(reviewed.getDecision('asset-2')).toBe('keep')
+    expect(reviewed.getDecision('asset-1')).toBe('delete')
+    expect(reviewed.getDecision('asset-3')).toBe('delete')
+    expect(uiStore.keptCount).toBe(1)
+    expect(uiStore.deletedCount).toBe(2)
+
+    await immich.undoLastAction()
+    await useOutboxStore().drain()
+
+    const restoreCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('/trash/restore/assets'))
+    expect(restoreCalls).toHaveLength(1)
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+    expect(reviewed.isReviewed('asset-2')).toBe(false)
+    expect(uiStore.deletedCount).toBe(0)
+    expect(immich.currentGroup.value?.id).toBe('dup-1')
+  })
+
+  it('counts trashed bytes and takes them back on undo', async () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Bytes')
+    usePreferencesStore().setReviewOrder('duplicates')
+    const uiStore = useUiStore()
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+    await immich.resolveGroup('asset-2')
+
+    expect(uiStore.sessionReclaimedBytes).toBe(1500)
+    expect(uiStore.reclaimedBytes).toBe(1500)
+
+    await immich.undoLastAction()
+
+    expect(uiStore.sessionReclaimedBytes).toBe(0)
+    expect(uiStore.reclaimedBytes).toBe(0)
+  })
+})
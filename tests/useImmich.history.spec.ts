@@ -0,0 +1,115 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useHistoryStore } from '@/stores/history'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useStagedStore } from '@/stores/staged'
+import { useUiStore } from '@/stores/ui'
+import type { ImmichAsset } from '@/types/immich'
+
+function makeAsset(id: string): ImmichAsset {
+  const now = new Date().toISOString()
+  return {
+    id,
+    deviceAssetId: `da-${id}`,
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: `/tmp/${id}.jpg`,
+    originalFileName: `${id}.jpg`,
+    fileCreatedAt: now,
+    fileModifiedAt: now,
+    localDateTime: now,
+    updatedAt: now,
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+}
+
+describe('useImmich history', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({}), { status: 200 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reverts older decisions on their own and keeps the history across reloads', async () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const uiStore = useUiStore()
+    const reviewed = useReviewedStore()
+    const outbox = useOutboxStore()
+    const immich = useImmich()
+
+    immich.currentAsset.value = makeAsset('asset-1')
+    await immich.toggleFavorite()
+    immich.currentAsset.value = makeAsset('asset-2')
+    await immich.keepPhotoToAlbum({ id: 'album-1', albumName: 'Family' })
+    immich.currentAsset.value = makeAsset('asset-3')
+    await immich.keepPhoto()
+    await outbox.drain()
+    expect(uiStore.keptCount).toBe(3)
+
+    const history = useHistoryStore()
+    const [favorite, album] = history.entries
+    await immich.revertHistoryEntry(favorite.id)
+    await immich.revertHistoryEntry(album.id)
+    await outbox.drain()
+
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+    expect(reviewed.isReviewed('asset-2')).toBe(false)
+    expect(reviewed.getDecision('asset-3')).toBe('keep')
+    expect(uiStore.keptCount).toBe(1)
+    // Older entries are reverted in place, the current card stays
+    expect(immich.currentAsset.value?.id).not.toBe('asset-1')
+
+    const fetchMock = fetch as unknown as Mock
+    const calls = fetchMock.mock.calls.map(([url, init]) => ({
+      url: String(url),
+      method: (init as RequestInit)?.method,
+      body: JSON.parse(((init as RequestInit)?.body as string) || 'null'),
+    }))
+    expect(calls).toContainEqual(expect.objectContaining({
+      method: 'PUT',
+      body: { ids: ['asset-1'], isFavorite: false },
+    }))
+    expect(calls).toContainEqual(expect.objectContaining({
+      url: expect.stringContaining('/albums/album-1/assets'),
+      method: 'DELETE',
+      body: { ids: ['asset-2'] },
+    }))
+
+    setActivePinia(createPinia())
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const reloaded = useHistoryStore()
+    expect(reloaded.entries.map((entry) => entry.asset.id)).toEqual(['asset-3'])
+    expect(reloaded.entries[0].type).toBe('keep')
+  })
+
+  it('keeps a burst resolution revertable while some of its shots are still staged', () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const history = useHistoryStore()
+    const staged = useStagedStore()
+    const immich = useImmich()
+    const group = { id: 'burst-1', kind: 'burst' as const, assets: ['lead', 'shot-1', 'shot-2'].map(makeAsset) }
+    group.assets.slice(1).forEach((asset) => staged.stage(asset))
+    history.push({ asset: group.assets[0], type: 'resolveGroup', group, removedIds: ['shot-1', 'shot-2'], staged: true })
+
+    immich.rescueStagedAsset('shot-1')
+    expect(history.entries).toHaveLength(1)
+    expect(history.entries[0].removedIds).toEqual(['shot-2'])
+    expect(staged.isStaged('shot-2')).toBe(true)
+
+    immich.rescueStagedAsset('shot-2')
+    expect(history.entries).toEqual([])
+  })
+})
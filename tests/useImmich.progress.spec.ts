@@ -0,0 +1,88 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import { useUiStore } from '@/stores/ui'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich session progress', () => {
+  function makeAsset(id: string, type: ImmichAsset['type'] = 'IMAGE'): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type,
+      originalPath: `/tmp/${id}.jpg`,
+      originalFileName: `${id}.jpg`,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed: false,
+      isOffline: false,
+      hasMetadata: false,
+    }
+  }
+
+  const assets = [makeAsset('a'), makeAsset('b'), makeAsset('c'), makeAsset('v', 'VIDEO')]
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input)
+      if (url.includes('/search/statistics')) {
+        const body = JSON.parse(init?.body as string)
+        return new Response(JSON.stringify({ total: body.type === 'IMAGE' ? 10 : 12 }), { status: 200 })
+      }
+      if (url.includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items: assets }, hasNextPage: false }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('subtracts the reviewed assets seen in scope and follows skip-videos', async () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological')
+    prefs.setReviewScope({ city: 'Oslo' })
+    const reviewed = useReviewedStore()
+    await reviewed.whenReady()
+    reviewed.markReviewed('a', 'keep')
+    reviewed.markReviewed('v', 'keep')
+    const ui = useUiStore()
+
+    const immich = useImmich()
+    await immich.refreshScopeTotal()
+    await immich.loadInitialAsset()
+
+    expect(immich.sessionProgress.value).toMatchObject({ total: 12, reviewed: 2, remaining: 10 })
+
+    await immich.keepPhoto()
+    expect(immich.sessionProgress.value).toMatchObject({ reviewed: 3, remaining: 9 })
+
+    ui.toggleSkipVideos()
+    await immich.refreshScopeTotal()
+    expect(immich.sessionProgress.value).toMatchObject({ total: 10, reviewed: 2, remaining: 8 })
+  })
+
+  it('counts each accepted rating when a minimum rating is set', async () => {
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    usePreferencesStore().setReviewScope({ minRating: 4 })
+
+    const immich = useImmich()
+    await immich.refreshScopeTotal()
+
+    expect(immich.sessionProgress.value?.total).toBe(24)
+  })
+})
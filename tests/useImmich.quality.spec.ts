@@ -0,0 +1,62 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich quality order', () => {
+  function makeAsset(id: string, originalFileName: string, exifInfo: ImmichAsset['exifInfo']): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type: 'IMAGE',
+      originalPath: `/tmp/${originalFileName}`,
+      originalFileName,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed: false,
+      isOffline: false,
+      hasMetadata: true,
+      exifInfo,
+    }
+  }
+
+  const items = [
+    makeAsset('photo', 'IMG_0001.jpg', { make: 'Canon', exifImageWidth: 6000, exifImageHeight: 4000 }),
+    makeAsset('thumb', 'IMG_0002.jpg', { make: 'Canon', exifImageWidth: 320, exifImageHeight: 240 }),
+    makeAsset('screenshot', 'Screenshot_20240101.png', {}),
+  ]
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+      if (String(input).includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items }, hasNextPage: false }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('serves the worst scored assets of a batch first', async () => {
+    usePreferencesStore().setReviewOrder('quality')
+    const immich = useImmich()
+
+    await immich.loadInitialAsset()
+    expect(immich.currentAsset.value?.id).toBe('screenshot')
+
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('thumb'))
+  })
+})
@@ -0,0 +1,75 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useHistoryStore } from '@/stores/history'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich rating', () => {
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: true,
+    exifInfo: { rating: 2 },
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({}), { status: 200 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('rates the current asset without deciding on it and undoes back to the previous rating', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const reviewed = useReviewedStore()
+    const history = useHistoryStore()
+    const outbox = useOutboxStore()
+
+    const immich = useImmich()
+    immich.currentAsset.value = dummyAsset
+
+    await immich.ratePhoto(4)
+    await outbox.drain()
+
+    expect(immich.currentAsset.value?.id).toBe('asset-1')
+    expect(immich.currentAsset.value?.exifInfo?.rating).toBe(4)
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+    expect(history.entries[0]).toMatchObject({ type: 'rate', rating: 4, previousRating: 2 })
+
+    await immich.undoLastAction()
+    await outbox.drain()
+
+    expect(immich.currentAsset.value?.exifInfo?.rating).toBe(2)
+    expect(history.count).toBe(0)
+
+    const fetchMock = fetch as unknown as Mock
+    const updates = fetchMock.mock.calls
+      .filter(([url, init]) => String(url).endsWith('/assets') && (init as RequestInit)?.method === 'PUT')
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+    expect(updates).toEqual([
+      { ids: ['asset-1'], rating: 4 },
+      { ids: ['asset-1'], rating: 2 },
+    ])
+  })
+})
@@ -0,0 +1,87 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich review scope', () => {
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, ..._rest: unknown[]) => {
+      const url = typeof input === 'string' ? input : input.toString()
+
+      if (url.includes('/search/random') || url.includes('/assets/random')) {
+        return new Response(JSON.stringify([dummyAsset]), { status: 200 })
+      }
+
+      if (url.includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items: [dummyAsset] } }), { status: 200 })
+      }
+
+      return new Response('', { status: 200 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function findBody(path: string): Record<string, unknown> {
+    const fetchMock = fetch as unknown as Mock
+    const call = fetchMock.mock.calls.find(([url]) => String(url).includes(path))
+    return JSON.parse((call?.[1] as RequestInit).body as string)
+  }
+
+  it('uses random search with the scope filters in random mode', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const prefs = usePreferencesStore()
+    prefs.setReviewScope({ city: 'Paris', personIds: ['person-1'] })
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    expect(immich.currentAsset.value?.id).toBe('asset-1')
+    const body = findBody('/search/random')
+    expect(body.city).toBe('Paris')
+    expect(body.personIds).toEqual(['person-1'])
+  })
+
+  it('sends the scope filters with chronological metadata search', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const prefs = usePreferencesStore()
+    prefs.setReviewOrder('chronological')
+    prefs.setReviewScope({ takenAfter: '2019-01-01T00:00:00.000Z', model: 'iPhone 8' })
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    const body = findBody('/search/metadata')
+    expect(body.takenAfter).toBe('2019-01-01T00:00:00.000Z')
+    expect(body.model).toBe('iPhone 8')
+    expect(body.order).toBe('asc')
+  })
+})
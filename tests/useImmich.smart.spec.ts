@@ -0,0 +1,84 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich smart search', () => {
+  function makeAsset(id: string): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type: 'IMAGE',
+      originalPath: `/tmp/${id}.png`,
+      originalFileName: `${id}.png`,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed: false,
+      isOffline: false,
+      hasMetadata: false,
+    }
+  }
+
+  const pages: Record<number, { items: ImmichAsset[]; nextPage: string | null }> = {
+    1: { items: [makeAsset('shot-1')], nextPage: '2' },
+    2: { items: [makeAsset('shot-2'), makeAsset('shot-3')], nextPage: null },
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).includes('/search/smart')) {
+        const { page } = JSON.parse(init?.body as string)
+        return new Response(JSON.stringify({ assets: pages[page] ?? { items: [], nextPage: null } }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('pages through the results with the scope and skips reviewed assets', async () => {
+    const prefs = usePreferencesStore()
+    prefs.setReviewScope({ city: 'Oslo' })
+    prefs.startSmartSearch('  screenshots ')
+    const reviewed = useReviewedStore()
+    await reviewed.whenReady()
+    reviewed.markReviewed('shot-1', 'keep')
+    reviewed.markReviewed('shot-2', 'delete')
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    expect(immich.currentAsset.value?.id).toBe('shot-3')
+    const bodies = (fetch as unknown as Mock).mock.calls
+      .filter(([url]) => String(url).includes('/search/smart'))
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+    expect(bodies.map((body) => body.page)).toEqual([1, 2])
+    expect(bodies[0]).toMatchObject({ query: 'screenshots', city: 'Oslo' })
+  })
+
+  it('remembers recent queries once, newest first', () => {
+    const prefs = usePreferencesStore()
+    prefs.startSmartSearch('memes')
+    prefs.startSmartSearch('receipts')
+    prefs.startSmartSearch('Memes')
+    prefs.endSmartSearch()
+
+    expect(prefs.smartQuery).toBeNull()
+    expect(prefs.recentSmartQueries).toEqual(['Memes', 'receipts'])
+  })
+})
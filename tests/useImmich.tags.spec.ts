@@ -0,0 +1,97 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useOutboxStore } from '@/stores/outbox'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ImmichAsset, ImmichTag } from '@/types/immich'
+
+describe('useImmich tagging', () => {
+  const trips: ImmichTag = { id: 'tag-trips', name: 'Trips', value: 'Trips' }
+  const japan: ImmichTag = { id: 'tag-japan', name: 'Japan', value: 'Trips/Japan' }
+  const dummyAsset: ImmichAsset = {
+    id: 'asset-1',
+    deviceAssetId: 'da-1',
+    ownerId: 'owner-1',
+    deviceId: 'device-1',
+    type: 'IMAGE',
+    originalPath: '/tmp/file.jpg',
+    originalFileName: 'file.jpg',
+    fileCreatedAt: new Date().toISOString(),
+    fileModifiedAt: new Date().toISOString(),
+    localDateTime: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    isFavorite: false,
+    isArchived: false,
+    isTrashed: false,
+    isOffline: false,
+    hasMetadata: false,
+    tags: [trips],
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({}), { status: 200 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function tagRequests(): { method?: string; url: string; ids: string[] }[] {
+    return (fetch as unknown as Mock).mock.calls
+      .filter(([url]) => String(url).includes('/tags/'))
+      .map(([url, init]) => ({
+        method: (init as RequestInit)?.method,
+        url: String(url).replace(/^.*\/api/, ''),
+        ids: JSON.parse((init as RequestInit).body as string).ids,
+      }))
+  }
+
+  it('adds only new tags, keeps the photo up and removes them again on undo', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const reviewed = useReviewedStore()
+    const outbox = useOutboxStore()
+
+    const immich = useImmich()
+    immich.currentAsset.value = dummyAsset
+
+    await immich.tagPhoto([trips, japan])
+    await outbox.drain()
+
+    expect(immich.currentAsset.value?.tags?.map((tag) => tag.id)).toEqual(['tag-trips', 'tag-japan'])
+    expect(reviewed.isReviewed('asset-1')).toBe(false)
+
+    await immich.undoLastAction()
+    await outbox.drain()
+
+    expect(immich.currentAsset.value?.id).toBe('asset-1')
+    expect(immich.currentAsset.value?.tags?.map((tag) => tag.id)).toEqual(['tag-trips'])
+    expect(tagRequests()).toEqual([
+      { method: 'PUT', url: expect.stringContaining('/tags/tag-japan/assets'), ids: ['asset-1'] },
+      { method: 'DELETE', url: expect.stringContaining('/tags/tag-japan/assets'), ids: ['asset-1'] },
+    ])
+  })
+
+  it('drops only the still queued tag of the undone entry', async () => {
+    const auth = useAuthStore()
+    auth.setConfig('http://immich.example.com', 'api-key', 'Alice')
+    const outbox = useOutboxStore()
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('offline')
+    }))
+
+    const immich = useImmich()
+    immich.currentAsset.value = { ...dummyAsset, tags: [] }
+    outbox.enqueue({ kind: 'tagAdd', tagId: 'tag-other', ids: ['asset-1'] })
+
+    await immich.tagPhoto([japan])
+    await outbox.drain()
+    await immich.undoLastAction()
+
+    expect(outbox.entries.map((entry) => [entry.kind, entry.tagId])).toEqual([['tagAdd', 'tag-other']])
+  })
+})
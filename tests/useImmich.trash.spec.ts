@@ -0,0 +1,135 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { nextTick } from 'vue'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import { useImmich } from '@/composables/useImmich'
+import { useAuthStore } from '@/stores/auth'
+import { useHistoryStore } from '@/stores/history'
+import { useOutboxStore } from '@/stores/outbox'
+import { usePreferencesStore } from '@/stores/preferences'
+import { useReviewedStore } from '@/stores/reviewed'
+import type { ImmichAsset } from '@/types/immich'
+
+describe('useImmich trash review', () => {
+  function makeAsset(id: string, isTrashed: boolean = true): ImmichAsset {
+    return {
+      id,
+      deviceAssetId: `da-${id}`,
+      ownerId: 'owner-1',
+      deviceId: 'device-1',
+      type: 'IMAGE',
+      originalPath: `/tmp/${id}.jpg`,
+      originalFileName: `${id}.jpg`,
+      fileCreatedAt: new Date().toISOString(),
+      fileModifiedAt: new Date().toISOString(),
+      localDateTime: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      isFavorite: false,
+      isArchived: false,
+      isTrashed,
+      isOffline: false,
+      hasMetadata: false,
+    }
+  }
+
+  const trash = [makeAsset('trash-1'), makeAsset('live-1', false), makeAsset('trash-2'), makeAsset('trash-3')]
+
+  function requests(path: string, method: string) {
+    return (fetch as unknown as Mock).mock.calls
+      .filter(([url, init]) => String(url).endsWith(path) && (init as RequestInit)?.method === method)
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string))
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    setActivePinia(createPinia())
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+      if (String(input).includes('/search/metadata')) {
+        return new Response(JSON.stringify({ assets: { items: trash, nextPage: null } }), { status: 200 })
+      }
+      return new Response(JSON.stringify({}), { status: 200 })
+    }))
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('lists trashed assets even when they were reviewed, restores right and marks left', async () => {
+    const prefs = usePreferencesStore()
+    const reviewed = useReviewedStore()
+    const outbox = useOutboxStore()
+    await reviewed.whenReady()
+    reviewed.markReviewed('trash-1', 'delete')
+    prefs.startTrashReview()
+
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    const [search] = requests('/search/metadata', 'POST')
+    expect(search).toMatchObject({ withDeleted: true, trashedAfter: new Date(0).toISOString() })
+    expect(immich.currentAsset.value?.id).toBe('trash-1')
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('trash-2'))
+
+    await immich.keepPhoto()
+    await immich.deletePhoto()
+    await outbox.drain()
+
+    expect(reviewed.getDecision('trash-1')).toBe('keep')
+    expect(requests('/trash/restore/assets', 'POST')).toEqual([{ ids: ['trash-1'] }])
+    expect(immich.purgeMarked.value.map((asset) => asset.id)).toEqual(['trash-2'])
+    // Nothing is deleted before the confirmation
+    expect(requests('/assets', 'DELETE')).toEqual([])
+
+    immich.purgeMarkedAssets()
+    await outbox.drain()
+
+    expect(requests('/assets', 'DELETE')).toEqual([{ ids: ['trash-2'], force: true }])
+    expect(immich.purgeMarked.value).toEqual([])
+    expect(useHistoryStore().entries.map((entry) => entry.type)).toEqual(['restore'])
+  })
+
+  it('undoes a mark and unmarks everything when the review ends', async () => {
+    const prefs = usePreferencesStore()
+    prefs.startTrashReview()
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+
+    await immich.deletePhoto()
+    await immich.undoLastAction()
+    expect(immich.purgeMarked.value).toEqual([])
+    expect(immich.currentAsset.value?.id).toBe('trash-1')
+
+    await immich.deletePhoto()
+    expect(immich.purgeMarked.value).toHaveLength(1)
+    prefs.endTrashReview()
+    await nextTick()
+
+    expect(immich.purgeMarked.value).toEqual([])
+    expect(useHistoryStore().entries).toEqual([])
+  })
+
+  it('forgets purge marks on reload and keeps undone restores off screen outside the review', async () => {
+    const prefs = usePreferencesStore()
+    prefs.startTrashReview()
+    const immich = useImmich()
+    await immich.loadInitialAsset()
+    await vi.waitFor(() => expect(immich.nextAsset.value?.id).toBe('trash-2'))
+
+    await immich.keepPhoto()
+    await immich.deletePhoto()
+    const stored = localStorage.getItem('immich-swipe-history:http://immich.example.com:Alice') as string
+    expect(JSON.parse(stored).entries.map((entry: { type: string }) => entry.type)).toEqual(['restore', 'purge'])
+
+    setActivePinia(createPinia())
+    useAuthStore().setConfig('http://immich.example.com', 'api-key', 'Alice')
+    expect(useHistoryStore().entries.map((entry) => entry.type)).toEqual(['restore'])
+    expect(usePreferencesStore().trashReview).toBe(false)
+
+    const reloaded = useImmich()
+    await reloaded.undoLastAction()
+    expect(reloaded.currentAsset.value).toBeNull()
+    expect(useReviewedStore().isReviewed('trash-1')).toBe(false)
+  })
+})
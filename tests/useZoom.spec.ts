@@ -0,0 +1,59 @@
+import { defineComponent, h, ref } from 'vue'
+import { mount } from '@vue/test-utils'
+import { useZoom } from '@/composables/useZoom'
+import { useSwipe } from '@/composables/useSwipe'
+
+function mountZoomable(doubleTapZoom = true) {
+  const swiped: string[] = []
+  let api: ReturnType<typeof useZoom> | null = null
+  const wrapper = mount(defineComponent({
+    setup() {
+      const cardRef = ref<HTMLElement | null>(null)
+      const zoomRef = ref<HTMLElement | null>(null)
+      api = useZoom(zoomRef, { doubleTapZoom })
+      useSwipe(cardRef, {
+        threshold: 50,
+        enabled: () => !api!.isZoomed.value,
+        onSwipeLeft: () => swiped.push('left'),
+      })
+      return () => h('div', { ref: cardRef }, [h('div', { ref: zoomRef, class: 'zoom' })])
+    },
+  }), { attachTo: document.body })
+  return { wrapper, zoom: api!, swiped }
+}
+
+function drag(target: Element, fromX: number, toX: number) {
+  target.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, clientX: fromX, clientY: 0, button: 0 }))
+  target.dispatchEvent(new MouseEvent('mousemove', { bubbles: true, clientX: toX, clientY: 0 }))
+  target.dispatchEvent(new MouseEvent('mouseup', { bubbles: true, clientX: toX, clientY: 0 }))
+}
+
+describe('useZoom', () => {
+  it('zooms with the wheel and double click and pauses swiping meanwhile', () => {
+    const { wrapper, zoom, swiped } = mountZoomable()
+    const target = wrapper.find('.zoom').element
+
+    target.dispatchEvent(new WheelEvent('wheel', { bubbles: true, cancelable: true, deltaY: -300 }))
+    expect(zoom.scale.value).toBeGreaterThan(1)
+
+    drag(target, 200, 50)
+    expect(swiped).toEqual([])
+
+    target.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+    expect(zoom.isZoomed.value).toBe(false)
+
+    drag(target, 200, 50)
+    expect(swiped).toEqual(['left'])
+
+    target.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+    expect(zoom.scale.value).toBe(2.5)
+    wrapper.unmount()
+  })
+
+  it('leaves double tap alone when it is bound to an action', () => {
+    const { wrapper, zoom } = mountZoomable(false)
+    wrapper.find('.zoom').element.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }))
+    expect(zoom.isZoomed.value).toBe(false)
+    wrapper.unmount()
+  })
+})
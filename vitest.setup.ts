@@ -1 +1,15 @@
 // Vitest setup file – kept lightweight for now.
+
+// jsdom has no matchMedia; the ui store reads it for the default theme.
+if (!window.matchMedia) {
+  window.matchMedia = (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: () => {},
+    removeListener: () => {},
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    dispatchEvent: () => false,
+  })
+}